@@ -0,0 +1,33 @@
+// Routes for HeritageBox staff (e.g. /api/refunds) require
+// "Authorization: Bearer <ADMIN_API_TOKEN>". Vercel cron jobs send
+// "Authorization: Bearer <CRON_SECRET>".
+
+export function isAdminConfigured(): boolean {
+    return !!process.env.ADMIN_API_TOKEN;
+}
+
+export function isAdminRequest(request: Request): boolean {
+    return hasBearerToken(request, process.env.ADMIN_API_TOKEN);
+}
+
+export function isCronRequest(request: Request): boolean {
+    return hasBearerToken(request, process.env.CRON_SECRET);
+}
+
+function hasBearerToken(request: Request, token: string | undefined): boolean {
+    const header = request.headers.get('authorization') || '';
+    const [scheme, credentials] = header.split(' ');
+    if (!token || scheme?.toLowerCase() !== 'bearer' || !credentials) {
+        return false;
+    }
+
+    // Constant-time comparison
+    if (credentials.length !== token.length) {
+        return false;
+    }
+    let mismatch = 0;
+    for (let i = 0; i < token.length; i++) {
+        mismatch |= token.charCodeAt(i) ^ credentials.charCodeAt(i);
+    }
+    return mismatch === 0;
+}
@@ -0,0 +1,239 @@
+import { AIRTABLE_BASE_ID } from '../../src/utils/airtableConfig.js';
+
+// Airtable MCP operations via server-side MCP calls
+// This would need to be implemented with actual MCP client calls
+// For now, we'll implement direct Airtable API calls
+
+const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
+
+// Airtable allows 5 requests per second per base and 10 records per write request.
+// A 429 locks the base out for 30 seconds, so calls are spaced out up front and
+// rate-limited responses are retried with backoff.
+const REQUESTS_PER_SECOND = 5;
+export const MAX_RECORDS_PER_REQUEST = 10;
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+export function isAirtableConfigured(): boolean {
+    return !!process.env.AIRTABLE_API_KEY;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Start time of the next request. Each call reserves a slot, so concurrent
+// calls from this instance are queued in order at the allowed rate.
+let nextRequestAt = 0;
+
+async function waitForRequestSlot(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, nextRequestAt);
+    nextRequestAt = slot + 1000 / REQUESTS_PER_SECOND;
+    if (slot > now) {
+        await sleep(slot - now);
+    }
+}
+
+function getRetryDelay(attempt: number, retryAfter: string | null): number {
+    const retryAfterSeconds = Number(retryAfter);
+    if (retryAfterSeconds > 0) {
+        return Math.min(retryAfterSeconds * 1000, RETRY_MAX_DELAY_MS);
+    }
+    return Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+}
+
+export async function makeAirtableCall(method: string, endpoint: string, data?: unknown) {
+    const apiKey = process.env.AIRTABLE_API_KEY;
+    if (!apiKey) {
+        throw new Error('Airtable API key not configured');
+    }
+
+    for (let attempt = 0; ; attempt++) {
+        await waitForRequestSlot();
+        const response = await fetch(`${AIRTABLE_API_URL}${endpoint}`, {
+            method,
+            headers: {
+                'Authorization': `Bearer ${apiKey}`,
+                'Content-Type': 'application/json',
+            },
+            body: data ? JSON.stringify(data) : undefined,
+        });
+
+        if (response.ok) {
+            return await response.json();
+        }
+
+        const errorText = await response.text();
+        if (response.status !== 429 || attempt >= MAX_RETRIES) {
+            throw new Error(`Airtable API error: ${response.status} - ${errorText}`);
+        }
+
+        const delay = getRetryDelay(attempt, response.headers.get('retry-after'));
+        console.warn(JSON.stringify({
+            timestamp: new Date().toISOString(),
+            event: 'airtable_rate_limited',
+            method,
+            attempt: attempt + 1,
+            delay
+        }));
+        // Hold back every queued call, not just this one
+        nextRequestAt = Math.max(nextRequestAt, Date.now() + delay);
+        await sleep(delay);
+    }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
+
+export interface AirtableRecord {
+    id: string;
+    fields: Record<string, unknown>;
+}
+
+export interface AirtableRecordInput {
+    fields: Record<string, unknown>;
+}
+
+export interface AirtableRecordUpdate {
+    id: string;
+    fields: Record<string, unknown>;
+}
+
+// Create any number of records, 10 per request. Records come back in input order.
+export async function createRecords(endpoint: string, records: AirtableRecordInput[]): Promise<AirtableRecord[]> {
+    const created: AirtableRecord[] = [];
+    for (const batch of chunk(records, MAX_RECORDS_PER_REQUEST)) {
+        const result = await makeAirtableCall('POST', endpoint, { records: batch });
+        created.push(...result.records);
+    }
+    return created;
+}
+
+// Update any number of records, 10 per request
+export async function updateRecords(endpoint: string, records: AirtableRecordUpdate[]): Promise<AirtableRecord[]> {
+    const updated: AirtableRecord[] = [];
+    for (const batch of chunk(records, MAX_RECORDS_PER_REQUEST)) {
+        const result = await makeAirtableCall('PATCH', endpoint, { records: batch });
+        updated.push(...result.records);
+    }
+    return updated;
+}
+
+export interface ListRecordsOptions {
+    filterByFormula?: string;
+    // Total across all pages; all matching records when omitted
+    maxRecords?: number;
+    // Records per request, up to 100
+    pageSize?: number;
+    // Field names to return; all fields when omitted
+    fields?: string[];
+    sort?: { field: string; direction?: 'asc' | 'desc' }[];
+    view?: string;
+}
+
+// List records, following Airtable's offset until every page (or maxRecords) is read
+export async function listRecords(endpoint: string, options: ListRecordsOptions = {}): Promise<AirtableRecord[]> {
+    const params = new URLSearchParams();
+    if (options.filterByFormula) {
+        params.set('filterByFormula', options.filterByFormula);
+    }
+    if (options.maxRecords) {
+        params.set('maxRecords', String(options.maxRecords));
+    }
+    if (options.pageSize) {
+        params.set('pageSize', String(options.pageSize));
+    }
+    if (options.view) {
+        params.set('view', options.view);
+    }
+    for (const field of options.fields || []) {
+        params.append('fields[]', field);
+    }
+    (options.sort || []).forEach((sort, index) => {
+        params.set(`sort[${index}][field]`, sort.field);
+        params.set(`sort[${index}][direction]`, sort.direction || 'asc');
+    });
+
+    const records: AirtableRecord[] = [];
+    let offset: string | undefined;
+    do {
+        if (offset) {
+            params.set('offset', offset);
+        }
+        const result = await makeAirtableCall('GET', `${endpoint}?${params}`);
+        records.push(...(result.records || []));
+        offset = result.offset;
+    } while (offset && !(options.maxRecords && records.length >= options.maxRecords));
+
+    return records;
+}
+
+// Endpoint path for a table in the HeritageBox base
+export function tablePath(tableId: string): string {
+    return `/${AIRTABLE_BASE_ID}/${encodeURIComponent(tableId)}`;
+}
+
+export const AIRTABLE_OPERATIONS = ['list_records', 'search_records', 'create_record', 'create_records', 'update_records', 'get_record'] as const;
+export type AirtableOperation = typeof AIRTABLE_OPERATIONS[number];
+
+export interface AirtableOperationArgs extends Omit<ListRecordsOptions, 'fields'> {
+    baseId: string;
+    tableId: string;
+    // create_record: the new record's values; list_records and search_records: field names to return
+    fields?: Record<string, unknown> | string[];
+    // update_records: records with IDs; create_records: records with fields only
+    records?: (AirtableRecordUpdate | AirtableRecordInput)[];
+    recordId?: string;
+}
+
+// Run one of the record-level operations used by src/utils/airtableUtils.ts
+// directly against the Airtable API. Server-side only - the browser is limited
+// to the domain operations in /api/airtable-operations.
+export async function executeAirtableOperation(operation: AirtableOperation, args: AirtableOperationArgs) {
+    const { baseId, tableId, ...params } = args;
+    let result;
+
+    switch (operation) {
+        // The same listing; search_records is expected to carry a filterByFormula
+        case 'list_records':
+        case 'search_records':
+            result = {
+                records: await listRecords(`/${baseId}/${tableId}`, {
+                    filterByFormula: params.filterByFormula,
+                    maxRecords: params.maxRecords,
+                    pageSize: params.pageSize,
+                    fields: Array.isArray(params.fields) ? params.fields : undefined,
+                    sort: params.sort,
+                    view: params.view
+                })
+            };
+            break;
+
+        case 'create_record':
+            result = await makeAirtableCall('POST', `/${baseId}/${tableId}`, {
+                records: [{ fields: params.fields }]
+            });
+            // Return single record for consistency
+            result = result.records[0];
+            break;
+
+        case 'create_records':
+            result = { records: await createRecords(`/${baseId}/${tableId}`, params.records || []) };
+            break;
+
+        case 'update_records':
+            result = { records: await updateRecords(`/${baseId}/${tableId}`, (params.records || []) as AirtableRecordUpdate[]) };
+            break;
+
+        case 'get_record':
+            result = await makeAirtableCall('GET', `/${baseId}/${tableId}/${params.recordId}`);
+            break;
+    }
+
+    return result;
+}
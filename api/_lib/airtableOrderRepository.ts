@@ -0,0 +1,170 @@
+import { TABLES } from '../../src/utils/airtableConfig.js';
+import { airtableOrderWriter, configureAirtableTransport } from '../../src/utils/airtableUtils.js';
+import { and, emailEquals, fieldEquals, isAfter, or } from '../../src/utils/airtableFormula.js';
+import {
+    createRecords,
+    executeAirtableOperation,
+    listRecords,
+    makeAirtableCall,
+    tablePath,
+    type AirtableOperation,
+    type AirtableRecord
+} from './airtable.js';
+import type { OrderRepository, SquareOrderReferences } from './orderRepository.js';
+
+// Record-level operations in airtableUtils need a server-side transport
+configureAirtableTransport((operation, args) => executeAirtableOperation(operation as AirtableOperation, args));
+
+async function findFirst(tableId: string, filterByFormula: string): Promise<AirtableRecord | null> {
+    const [record] = await listRecords(tablePath(tableId), { filterByFormula, maxRecords: 1 });
+    return record || null;
+}
+
+// Order numbers come from the "Order Numbers" table, whose "Sequence"
+// autonumber field gives every new row a unique, increasing value
+async function allocateOrderSequence(checkoutSessionId?: string): Promise<number> {
+    if (checkoutSessionId) {
+        const existing = await findFirst(TABLES.ORDER_NUMBERS, fieldEquals('Checkout Session ID', checkoutSessionId));
+        if (existing) {
+            return Number(existing.fields['Sequence']);
+        }
+    }
+
+    const result = await makeAirtableCall('POST', tablePath(TABLES.ORDER_NUMBERS), {
+        records: [{
+            fields: {
+                'Allocated At': new Date().toISOString(),
+                'Checkout Session ID': checkoutSessionId || ''
+            }
+        }]
+    });
+    return Number(result.records?.[0]?.fields?.['Sequence']);
+}
+
+async function createRecord(tableId: string, fields: Record<string, unknown>): Promise<AirtableRecord> {
+    const [record] = await createRecords(tablePath(tableId), [{ fields }]);
+    return record;
+}
+
+async function findOrdersBySquareIds(ids: SquareOrderReferences, maxRecords: number): Promise<AirtableRecord[]> {
+    const conditions: string[] = [];
+    if (ids.paymentId) {
+        conditions.push(fieldEquals('Square Payment ID', ids.paymentId));
+    }
+    if (ids.orderId) {
+        conditions.push(fieldEquals('Square Order ID', ids.orderId));
+    }
+    if (ids.customerId) {
+        conditions.push(fieldEquals('Square Customer ID', ids.customerId));
+    }
+    if (conditions.length === 0) {
+        return [];
+    }
+
+    return listRecords(tablePath(TABLES.ORDERS), {
+        filterByFormula: or(...conditions),
+        maxRecords,
+        sort: [{ field: 'Order Date', direction: 'desc' }]
+    });
+}
+
+export const airtableOrderRepository: OrderRepository = {
+    ...airtableOrderWriter,
+    allocateOrderSequence,
+    findOrdersBySquareIds,
+
+    findOrderByCheckoutSession: checkoutSessionId =>
+        findFirst(TABLES.ORDERS, fieldEquals('Checkout Session ID', checkoutSessionId)),
+
+    findOrderByNumber: orderNumber =>
+        findFirst(TABLES.ORDERS, fieldEquals('Order Number', orderNumber)),
+
+    getCustomer: recordId =>
+        makeAirtableCall('GET', `${tablePath(TABLES.CUSTOMERS)}/${encodeURIComponent(recordId)}`),
+
+    async updateOrder(recordId, fields) {
+        await makeAirtableCall('PATCH', tablePath(TABLES.ORDERS), {
+            records: [{ id: recordId, fields }]
+        });
+    },
+
+    createOutboxJobs: jobs =>
+        createRecords(tablePath(TABLES.OUTBOX_JOBS), jobs.map(fields => ({ fields }))),
+
+    findOutboxJobs: (status, maxRecords) =>
+        listRecords(tablePath(TABLES.OUTBOX_JOBS), {
+            filterByFormula: fieldEquals('Status', status),
+            maxRecords,
+            sort: [{ field: 'Next Attempt At', direction: 'asc' }]
+        }),
+
+    findOutboxJobsByOrder: orderNumber =>
+        listRecords(tablePath(TABLES.OUTBOX_JOBS), {
+            filterByFormula: fieldEquals('Order Number', orderNumber)
+        }),
+
+    async updateOutboxJob(recordId, fields) {
+        await makeAirtableCall('PATCH', tablePath(TABLES.OUTBOX_JOBS), {
+            records: [{ id: recordId, fields }]
+        });
+    },
+
+    async countPromoRedemptions(code, email) {
+        const conditions = [fieldEquals('Code', code)];
+        if (email) {
+            conditions.push(emailEquals('Email', email));
+        }
+        const redemptions = await listRecords(tablePath(TABLES.PROMO_REDEMPTIONS), {
+            filterByFormula: and(...conditions),
+            fields: ['Code']
+        });
+        return redemptions.length;
+    },
+
+    async createPromoRedemption(fields) {
+        await createRecord(TABLES.PROMO_REDEMPTIONS, fields);
+    },
+
+    async createPaymentAttempt(fields) {
+        await createRecord(TABLES.PAYMENT_ATTEMPTS, fields);
+    },
+
+    findGiftCardByCheckoutSession: checkoutSessionId =>
+        findFirst(TABLES.GIFT_CARDS, fieldEquals('Checkout Session ID', checkoutSessionId)),
+
+    async findGiftCardBySquareIds(ids) {
+        const conditions: string[] = [];
+        if (ids.paymentId) {
+            conditions.push(fieldEquals('Square Payment ID', ids.paymentId));
+        }
+        if (ids.orderId) {
+            conditions.push(fieldEquals('Square Order ID', ids.orderId));
+        }
+        return conditions.length > 0 ? findFirst(TABLES.GIFT_CARDS, or(...conditions)) : null;
+    },
+
+    createGiftCard: fields => createRecord(TABLES.GIFT_CARDS, fields),
+
+    findWebhookEvent: eventId =>
+        findFirst(TABLES.WEBHOOK_EVENTS, fieldEquals('Event ID', eventId)),
+
+    async createWebhookEvent(fields) {
+        await createRecord(TABLES.WEBHOOK_EVENTS, fields);
+    },
+
+    createCardAccessCode: fields => createRecord(TABLES.CARD_ACCESS_CODES, fields),
+
+    findCardAccessCode: challengeId =>
+        findFirst(TABLES.CARD_ACCESS_CODES, fieldEquals('Challenge ID', challengeId)),
+
+    findCardAccessCodes: (email, createdAfter) =>
+        listRecords(tablePath(TABLES.CARD_ACCESS_CODES), {
+            filterByFormula: and(emailEquals('Email', email), isAfter('Created At', createdAfter))
+        }),
+
+    async updateCardAccessCode(recordId, fields) {
+        await makeAirtableCall('PATCH', tablePath(TABLES.CARD_ACCESS_CODES), {
+            records: [{ id: recordId, fields }]
+        });
+    }
+};
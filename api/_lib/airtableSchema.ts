@@ -0,0 +1,337 @@
+import { AIRTABLE_BASE_ID, TABLES } from '../../src/utils/airtableConfig.js';
+import { makeAirtableCall } from './airtable.js';
+
+// The fields the API routes read and write, per TABLES entry, checked against
+// the live base through the Airtable Metadata API (/api/airtable-schema).
+// Missing tables and fields can be created; a field of the wrong type, or a
+// single select missing an option, has to be fixed by hand in Airtable.
+
+export type TableKey = keyof typeof TABLES;
+
+export interface ExpectedField {
+    name: string;
+    // Accepted Airtable field types; the first is used when the field is created
+    types: string[];
+    options?: Record<string, unknown>;
+    // Linked record fields point at another table
+    linkedTable?: TableKey;
+}
+
+export interface ExpectedTable {
+    // Used to find or create the table when TABLES holds a table ID that doesn't exist
+    name: string;
+    // The first field becomes the primary field of a created table
+    fields: ExpectedField[];
+}
+
+interface BaseField {
+    id: string;
+    name: string;
+    type: string;
+    options?: Record<string, unknown>;
+}
+
+interface BaseTable {
+    id: string;
+    name: string;
+    fields: BaseField[];
+}
+
+export type SchemaProblem = 'missing_table' | 'missing_field' | 'wrong_type' | 'wrong_link' | 'missing_choices';
+
+export interface SchemaIssue {
+    table: TableKey;
+    field?: string;
+    problem: SchemaProblem;
+    expected?: string;
+    actual?: string;
+    // Whether applySchema() can fix it
+    fixable: boolean;
+}
+
+export interface SchemaChange {
+    table: TableKey;
+    field?: string;
+    // Set when a table was created; TABLES must be updated to it if it held a table ID
+    tableId?: string;
+}
+
+const text = (name: string): ExpectedField => ({ name, types: ['singleLineText', 'multilineText'] });
+const longText = (name: string): ExpectedField => ({ name, types: ['multilineText', 'singleLineText', 'richText'] });
+const email = (name: string): ExpectedField => ({ name, types: ['email', 'singleLineText'] });
+const url = (name: string): ExpectedField => ({ name, types: ['url', 'singleLineText'] });
+const phone = (name: string): ExpectedField => ({ name, types: ['phoneNumber', 'singleLineText'] });
+const currency = (name: string): ExpectedField => ({ name, types: ['currency', 'number'], options: { precision: 2, symbol: '$' } });
+const integer = (name: string): ExpectedField => ({ name, types: ['number'], options: { precision: 0 } });
+const date = (name: string): ExpectedField => ({ name, types: ['date', 'dateTime'], options: { dateFormat: { name: 'iso' } } });
+const dateTime = (name: string): ExpectedField => ({
+    name,
+    types: ['dateTime', 'singleLineText'],
+    options: { dateFormat: { name: 'iso' }, timeFormat: { name: '24hour' }, timeZone: 'utc' }
+});
+const select = (name: string, choices: string[]): ExpectedField => ({
+    name,
+    types: ['singleSelect'],
+    options: { choices: choices.map(choice => ({ name: choice })) }
+});
+const link = (name: string, linkedTable: TableKey): ExpectedField => ({ name, types: ['multipleRecordLinks'], linkedTable });
+const autoNumber = (name: string): ExpectedField => ({ name, types: ['autoNumber'] });
+
+// Field types the Metadata API cannot create
+const NOT_CREATABLE = ['autoNumber'];
+
+export const EXPECTED_SCHEMA: Record<TableKey, ExpectedTable> = {
+    CUSTOMERS: {
+        name: 'Customers',
+        fields: [
+            text('Name'),
+            email('Email'),
+            phone('Phone'),
+            longText('Shipping Address'),
+            select('Status', ['Todo', 'In progress', 'Done'])
+        ]
+    },
+    PRODUCTS: {
+        name: 'Products',
+        fields: [
+            text('Product Name'),
+            longText('Description'),
+            currency('Price'),
+            text('SKU'),
+            integer('Stock Quantity')
+        ]
+    },
+    ORDERS: {
+        name: 'Orders',
+        fields: [
+            text('Order Number'),
+            link('Customer', 'CUSTOMERS'),
+            date('Order Date'),
+            select('Status', ['Pending', 'Processing', 'Shipped', 'Delivered', 'Canceled']),
+            currency('Total Amount'),
+            text('Promo Code'),
+            currency('Tax Amount'),
+            text('Checkout Session ID'),
+            text('Square Payment ID'),
+            text('Square Order ID'),
+            text('Square Customer ID'),
+            text('Card Brand'),
+            text('Card Last 4'),
+            url('Receipt URL'),
+            text('PayPal Order ID'),
+            text('PayPal Capture ID'),
+            text('Gift Card Payment ID'),
+            currency('Gift Card Amount'),
+            currency('Refunded Amount'),
+            longText('Refund Reason')
+        ]
+    },
+    ORDER_ITEMS: {
+        name: 'Order Items',
+        fields: [
+            text('Item ID'),
+            link('Order', 'ORDERS'),
+            link('Product', 'PRODUCTS'),
+            integer('Quantity'),
+            currency('Unit Price'),
+            currency('Line Total'),
+            currency('Discount Amount')
+        ]
+    },
+    PROMO_REDEMPTIONS: {
+        name: 'Promo Redemptions',
+        fields: [
+            text('Code'),
+            email('Email'),
+            text('Payment ID'),
+            text('Order Reference'),
+            currency('Discount Amount'),
+            dateTime('Redeemed At')
+        ]
+    },
+    WEBHOOK_EVENTS: {
+        name: 'Webhook Events',
+        fields: [
+            text('Event ID'),
+            text('Type'),
+            text('Outcome'),
+            dateTime('Processed At')
+        ]
+    },
+    ORDER_NUMBERS: {
+        name: 'Order Numbers',
+        fields: [
+            text('Checkout Session ID'),
+            // Order numbers depend on it; add it in Airtable as an "Autonumber" field
+            autoNumber('Sequence'),
+            dateTime('Allocated At')
+        ]
+    },
+    GIFT_CARDS: {
+        name: 'Gift Cards',
+        fields: [
+            text('Checkout Session ID'),
+            text('Package'),
+            currency('Amount'),
+            text('Purchaser Name'),
+            email('Purchaser Email'),
+            text('Recipient Name'),
+            email('Recipient Email'),
+            longText('Message'),
+            text('Square Gift Card ID'),
+            text('GAN Last 4'),
+            text('Square Order ID'),
+            text('Square Payment ID'),
+            select('Status', ['Active', 'Activation Failed']),
+            dateTime('Purchased At')
+        ]
+    },
+    PAYMENT_ATTEMPTS: {
+        name: 'Payment Attempts',
+        fields: [
+            text('Checkout Session ID'),
+            integer('Attempt'),
+            text('Order Number'),
+            email('Email'),
+            currency('Amount'),
+            text('Payment Method'),
+            select('Outcome', ['Succeeded', 'Declined', 'Verification Required', 'Error']),
+            text('Decline Reason'),
+            text('Square Code'),
+            text('Square Payment ID'),
+            dateTime('Attempted At')
+        ]
+    },
+    OUTBOX_JOBS: {
+        name: 'Outbox Jobs',
+        fields: [
+            text('Job ID'),
+            text('Type'),
+            text('Order Number'),
+            select('Status', ['Pending', 'Done', 'Failed']),
+            integer('Attempts'),
+            dateTime('Next Attempt At'),
+            longText('Last Error'),
+            longText('Payload'),
+            dateTime('Created At'),
+            dateTime('Completed At')
+        ]
+    },
+    CARD_ACCESS_CODES: {
+        name: 'Card Access Codes',
+        fields: [
+            text('Challenge ID'),
+            email('Email'),
+            integer('Attempts'),
+            select('Status', ['Pending', 'Used', 'Locked']),
+            dateTime('Created At')
+        ]
+    }
+};
+
+const TABLE_KEYS = Object.keys(EXPECTED_SCHEMA) as TableKey[];
+
+const metaPath = (path = '') => `/meta/bases/${AIRTABLE_BASE_ID}/tables${path}`;
+
+export async function fetchBaseSchema(): Promise<BaseTable[]> {
+    const result = await makeAirtableCall('GET', metaPath());
+    return result.tables || [];
+}
+
+// TABLES holds either a table ID or a table name
+function findTable(tables: BaseTable[], key: TableKey): BaseTable | undefined {
+    const configured = TABLES[key];
+    return tables.find(table => table.id === configured || table.name === configured)
+        || tables.find(table => table.name === EXPECTED_SCHEMA[key].name);
+}
+
+const isCreatable = (field: ExpectedField) => !NOT_CREATABLE.includes(field.types[0]);
+
+function checkField(key: TableKey, expected: ExpectedField, actual: BaseField | undefined, tables: BaseTable[]): SchemaIssue | null {
+    if (!actual) {
+        return { table: key, field: expected.name, problem: 'missing_field', expected: expected.types[0], fixable: isCreatable(expected) };
+    }
+    if (!expected.types.includes(actual.type)) {
+        return { table: key, field: expected.name, problem: 'wrong_type', expected: expected.types.join(' or '), actual: actual.type, fixable: false };
+    }
+
+    if (expected.linkedTable) {
+        const linked = findTable(tables, expected.linkedTable);
+        if (linked && actual.options?.linkedTableId !== linked.id) {
+            return { table: key, field: expected.name, problem: 'wrong_link', expected: linked.name, actual: String(actual.options?.linkedTableId), fixable: false };
+        }
+    }
+
+    // Writing a select value that isn't one of the field's options fails
+    const expectedChoices = (expected.options?.choices as { name: string }[] | undefined) || [];
+    const actualChoices = ((actual.options?.choices as { name: string }[] | undefined) || []).map(choice => choice.name);
+    const missingChoices = expectedChoices.map(choice => choice.name).filter(choice => !actualChoices.includes(choice));
+    if (missingChoices.length > 0) {
+        return { table: key, field: expected.name, problem: 'missing_choices', expected: missingChoices.join(', '), fixable: false };
+    }
+
+    return null;
+}
+
+// Compare the base against EXPECTED_SCHEMA
+export function verifySchema(tables: BaseTable[]): SchemaIssue[] {
+    const issues: SchemaIssue[] = [];
+
+    for (const key of TABLE_KEYS) {
+        const table = findTable(tables, key);
+        if (!table) {
+            issues.push({ table: key, problem: 'missing_table', expected: EXPECTED_SCHEMA[key].name, fixable: true });
+            continue;
+        }
+        for (const expected of EXPECTED_SCHEMA[key].fields) {
+            const actual = table.fields.find(field => field.name === expected.name);
+            const issue = checkField(key, expected, actual, tables);
+            if (issue) {
+                issues.push(issue);
+            }
+        }
+    }
+
+    return issues;
+}
+
+function toFieldDefinition(field: ExpectedField, tables: BaseTable[]): Record<string, unknown> {
+    const options = field.linkedTable
+        ? { linkedTableId: findTable(tables, field.linkedTable)?.id }
+        : field.options;
+    return { name: field.name, type: field.types[0], ...(options ? { options } : {}) };
+}
+
+// Create missing tables, then missing fields. Linked record fields are left
+// out of new tables until every table exists, so they can point at it.
+export async function applySchema(): Promise<{ changes: SchemaChange[]; issues: SchemaIssue[] }> {
+    const changes: SchemaChange[] = [];
+    let tables = await fetchBaseSchema();
+
+    for (const key of TABLE_KEYS) {
+        if (findTable(tables, key)) {
+            continue;
+        }
+        const fields = EXPECTED_SCHEMA[key].fields.filter(field => isCreatable(field) && !field.linkedTable);
+        const created = await makeAirtableCall('POST', metaPath(), {
+            name: EXPECTED_SCHEMA[key].name,
+            fields: fields.map(field => toFieldDefinition(field, tables))
+        });
+        changes.push({ table: key, tableId: created.id });
+    }
+    if (changes.length > 0) {
+        tables = await fetchBaseSchema();
+    }
+
+    for (const issue of verifySchema(tables)) {
+        if (issue.problem !== 'missing_field' || !issue.fixable) {
+            continue;
+        }
+        const table = findTable(tables, issue.table);
+        const field = EXPECTED_SCHEMA[issue.table].fields.find(expected => expected.name === issue.field);
+        await makeAirtableCall('POST', metaPath(`/${table.id}/fields`), toFieldDefinition(field, tables));
+        changes.push({ table: issue.table, field: field.name });
+    }
+
+    return { changes, issues: verifySchema(await fetchBaseSchema()) };
+}
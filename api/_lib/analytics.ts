@@ -0,0 +1,50 @@
+import type { PaidOrder } from './orders.js';
+
+// Purchases are reported to Google Analytics 4 from the server through the
+// Measurement Protocol, so they are counted even when the browser blocks gtag
+// or the customer leaves before the confirmation page loads.
+// Needs GA_MEASUREMENT_ID and GA_API_SECRET (Admin > Data Streams > Measurement
+// Protocol API secrets).
+
+const GA_COLLECT_URL = 'https://www.google-analytics.com/mp/collect';
+
+export function isAnalyticsConfigured(): boolean {
+    return !!process.env.GA_MEASUREMENT_ID && !!process.env.GA_API_SECRET;
+}
+
+// Send the GA4 "purchase" event for a paid order. The checkout session stands in
+// for the browser's client ID, which the server does not know.
+export async function sendPurchaseEvent(order: PaidOrder): Promise<boolean> {
+    const { pricing } = order;
+    const params = new URLSearchParams({
+        measurement_id: process.env.GA_MEASUREMENT_ID,
+        api_secret: process.env.GA_API_SECRET
+    });
+
+    const response = await fetch(`${GA_COLLECT_URL}?${params}`, {
+        method: 'POST',
+        headers: {'Content-Type': 'application/json'},
+        body: JSON.stringify({
+            client_id: order.checkoutSessionId || order.orderNumber,
+            events: [{
+                name: 'purchase',
+                params: {
+                    transaction_id: order.orderNumber,
+                    currency: 'USD',
+                    value: pricing.total,
+                    tax: pricing.taxAmount,
+                    coupon: pricing.couponCode,
+                    payment_type: order.paymentMethod,
+                    items: pricing.lineItems.map(line => ({
+                        item_id: line.catalogKey,
+                        item_name: line.name,
+                        price: line.unitPrice,
+                        quantity: line.quantity
+                    }))
+                }
+            }]
+        })
+    });
+
+    return response.ok;
+}
@@ -0,0 +1,158 @@
+import { normalizeEmail as normalize } from '../../src/utils/airtableFormula.js';
+import { getOrderRepository } from './orderRepository.js';
+
+// Returning customers prove they own their email before their saved cards are
+// listed or charged. /api/saved-cards emails an 8-digit code together with a
+// signed challenge; the code and challenge are exchanged for a short-lived card
+// access token, which /api/process-payment checks before charging a card on file.
+// Both are HMAC-signed with CARD_ACCESS_SECRET.
+//
+// Each code is also kept in the Card Access Codes table, so it can be used once
+// and is locked after MAX_CODE_ATTEMPTS wrong guesses. Per email, at most
+// MAX_CODES_PER_WINDOW codes are sent and MAX_ATTEMPTS_PER_WINDOW guesses made
+// per RATE_LIMIT_WINDOW_MS.
+
+const CODE_DIGITS = 8;
+const CODE_TTL_MS = 10 * 60 * 1000;
+const ACCESS_TOKEN_TTL_MS = 30 * 60 * 1000;
+const MAX_CODE_ATTEMPTS = 5;
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+const MAX_CODES_PER_WINDOW = 5;
+const MAX_ATTEMPTS_PER_WINDOW = 10;
+
+interface SignedPayload {
+    purpose: 'challenge' | 'access';
+    email: string;
+    expiresAt: number;
+    challengeId?: string;
+    codeHash?: string;
+}
+
+export type RedeemResult =
+    | { cardAccessToken: string }
+    | { error: 'INVALID_CODE' | 'TOO_MANY_ATTEMPTS' };
+
+export function isCardAccessConfigured(): boolean {
+    return !!process.env.CARD_ACCESS_SECRET;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+    return atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+}
+
+async function hmac(value: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+        'raw',
+        encoder.encode(process.env.CARD_ACCESS_SECRET),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+    );
+    return toBase64Url(new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(value))));
+}
+
+// Constant-time comparison
+function safeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) {
+        return false;
+    }
+    let mismatch = 0;
+    for (let i = 0; i < a.length; i++) {
+        mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return mismatch === 0;
+}
+
+async function sign(payload: SignedPayload): Promise<string> {
+    const body = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+    return `${body}.${await hmac(body)}`;
+}
+
+async function verify(token: unknown, purpose: SignedPayload['purpose']): Promise<SignedPayload | null> {
+    if (typeof token !== 'string') {
+        return null;
+    }
+    const [body, signature] = token.split('.');
+    if (!body || !signature || !safeEqual(signature, await hmac(body))) {
+        return null;
+    }
+
+    try {
+        const payload: SignedPayload = JSON.parse(fromBase64Url(body));
+        return payload.purpose === purpose && payload.expiresAt > Date.now() ? payload : null;
+    } catch (error) {
+        return null;
+    }
+}
+
+// Codes sent to the email within the rate limit window
+function findRecentCodes(email: string) {
+    return getOrderRepository().findCardAccessCodes(email, new Date(Date.now() - RATE_LIMIT_WINDOW_MS).toISOString());
+}
+
+// A new code and its challenge, or null when too many codes were sent to the email
+export async function createEmailChallenge(email: string): Promise<{ code: string; challenge: string } | null> {
+    if ((await findRecentCodes(email)).length >= MAX_CODES_PER_WINDOW) {
+        return null;
+    }
+
+    const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, '0');
+    const challengeId = crypto.randomUUID();
+    await getOrderRepository().createCardAccessCode({
+        'Challenge ID': challengeId,
+        'Email': normalize(email),
+        'Attempts': 0,
+        'Status': 'Pending',
+        'Created At': new Date().toISOString()
+    });
+
+    const challenge = await sign({
+        purpose: 'challenge',
+        email: normalize(email),
+        expiresAt: Date.now() + CODE_TTL_MS,
+        challengeId,
+        codeHash: await hmac(`${normalize(email)}|${code}`)
+    });
+    return { code, challenge };
+}
+
+// Exchange a correct code for a card access token. Every guess counts towards
+// the code's and the email's limits, and a code can only be redeemed once.
+export async function redeemEmailChallenge(email: string, code: string, challenge: string): Promise<RedeemResult> {
+    const payload = await verify(challenge, 'challenge');
+    if (!payload?.challengeId || payload.email !== normalize(email)) {
+        return { error: 'INVALID_CODE' };
+    }
+
+    const record = await getOrderRepository().findCardAccessCode(payload.challengeId);
+    if (!record || record.fields['Status'] === 'Used') {
+        return { error: 'INVALID_CODE' };
+    }
+    const recentAttempts = (await findRecentCodes(email))
+        .reduce((sum, recent) => sum + (Number(recent.fields['Attempts']) || 0), 0);
+    if (record.fields['Status'] === 'Locked' || recentAttempts >= MAX_ATTEMPTS_PER_WINDOW) {
+        return { error: 'TOO_MANY_ATTEMPTS' };
+    }
+
+    const attempts = (Number(record.fields['Attempts']) || 0) + 1;
+    const correct = safeEqual(payload.codeHash || '', await hmac(`${normalize(email)}|${code.trim()}`));
+    const status = correct ? 'Used' : attempts >= MAX_CODE_ATTEMPTS ? 'Locked' : 'Pending';
+    await getOrderRepository().updateCardAccessCode(record.id, { 'Attempts': attempts, 'Status': status });
+
+    if (!correct) {
+        return { error: status === 'Locked' ? 'TOO_MANY_ATTEMPTS' : 'INVALID_CODE' };
+    }
+    return {
+        cardAccessToken: await sign({ purpose: 'access', email: payload.email, expiresAt: Date.now() + ACCESS_TOKEN_TTL_MS })
+    };
+}
+
+// The verified email a card access token was issued for, or null
+export async function readCardAccessToken(token: unknown): Promise<string | null> {
+    return (await verify(token, 'access'))?.email || null;
+}
@@ -0,0 +1,160 @@
+import type { OrderDetails } from '../../src/utils/squareIntegration.js';
+import {
+    calculateOrderPricing,
+    parsePricingInput,
+    toCents,
+    type AppliedDiscount,
+    type PriceBreakdown,
+    type PricingInput
+} from '../../src/utils/pricing.js';
+import { getTaxRate, normalizeTaxAddress, type TaxAddress, type TaxRate } from '../../src/utils/tax.js';
+import { isUsStateCode } from '../../src/utils/usStates.js';
+import { validatePromotion } from './promotions.js';
+import type { PaidOrder } from './orders.js';
+import { runOrderJobs } from './outbox.js';
+
+// Steps shared by the card (/api/process-payment) and PayPal (/api/paypal-orders)
+// checkouts: pricing the order on the server before taking money, and recording
+// it once the payment has gone through.
+
+// Helper function for structured logging
+function logEvent(event: string, data: Record<string, unknown>) {
+    console.log(JSON.stringify({
+        timestamp: new Date().toISOString(),
+        event,
+        ...data
+    }));
+}
+
+// orderDetails as posted by the checkout page
+export interface CheckoutOrderDetails {
+    packageType?: string;
+    usbDrives?: number | string;
+    cloudBackup?: boolean;
+    digitizingSpeed?: string;
+    discountCode?: string;
+    customerInfo?: Partial<OrderDetails['customerInfo']>;
+    firstName?: string;
+    lastName?: string;
+    email?: string;
+    phone?: string;
+}
+
+export interface CheckoutRejection {
+    status: number;
+    body: Record<string, unknown>;
+}
+
+export interface PricedCheckout {
+    pricing?: PriceBreakdown;
+    customerInfo?: OrderDetails['customerInfo'];
+    rejection?: CheckoutRejection;
+}
+
+function reject(status: number, body: Record<string, unknown>): PricedCheckout {
+    return { rejection: { status, body: { success: false, ...body } } };
+}
+
+// Recalculate the order total from the catalog, re-validate the coupon and
+// look up the sales tax rate for the shipping address.
+// The amount posted by the browser is only used to detect a stale or tampered
+// order summary.
+export async function priceCheckout(orderDetails: CheckoutOrderDetails, amount: unknown): Promise<PricedCheckout> {
+    let pricingInput: PricingInput;
+    try {
+        pricingInput = parsePricingInput(orderDetails);
+    } catch (error) {
+        logEvent('validation_failed', { error: error.message });
+        return reject(400, { error: 'Invalid order selection' });
+    }
+
+    const customerInfo: OrderDetails['customerInfo'] = {
+        firstName: orderDetails.customerInfo?.firstName || orderDetails.firstName,
+        lastName: orderDetails.customerInfo?.lastName || orderDetails.lastName,
+        email: orderDetails.customerInfo?.email || orderDetails.email,
+        phone: orderDetails.customerInfo?.phone || orderDetails.phone,
+        address: orderDetails.customerInfo?.address
+    };
+
+    // Expiry and usage limits may have changed since the coupon was applied in the browser
+    let discount: AppliedDiscount | undefined;
+    if (orderDetails.discountCode) {
+        const promotionResult = await validatePromotion(orderDetails.discountCode, {
+            email: customerInfo.email,
+            pricingInput
+        });
+
+        if (!promotionResult.valid) {
+            logEvent('coupon_rejected', {
+                code: orderDetails.discountCode,
+                reason: promotionResult.code
+            });
+            return reject(422, { code: 'COUPON_INVALID', error: promotionResult.error });
+        }
+
+        discount = promotionResult.discount;
+    }
+
+    // Sales tax is charged at the rate for the shipping address, so a state the
+    // tax table doesn't know must not pass as one without sales tax
+    const taxAddress: TaxAddress = normalizeTaxAddress({
+        state: customerInfo.address?.administrative_district_level_1,
+        postalCode: customerInfo.address?.postal_code
+    });
+    if (!isUsStateCode(taxAddress.state)) {
+        logEvent('address_rejected', { state: customerInfo.address?.administrative_district_level_1 });
+        return reject(422, { code: 'ADDRESS_INVALID', error: 'Please choose the state of your shipping address.' });
+    }
+
+    let tax: TaxRate | null;
+    try {
+        tax = await getTaxRate(taxAddress);
+    } catch (error) {
+        logEvent('tax_rate_error', { error: error.message });
+        return reject(503, { error: 'We could not calculate sales tax for your order. Please try again.' });
+    }
+
+    let pricing: PriceBreakdown;
+    try {
+        pricing = calculateOrderPricing(pricingInput, discount, tax);
+    } catch (error) {
+        logEvent('pricing_failed', { error: error.message });
+        return reject(400, { error: 'Invalid order selection' });
+    }
+
+    if (toCents(Number(amount)) !== toCents(pricing.total)) {
+        logEvent('price_mismatch', {
+            clientAmount: amount,
+            serverAmount: pricing.total,
+            taxAmount: pricing.taxAmount,
+            packageType: pricing.packageType,
+            couponCode: orderDetails.discountCode
+        });
+        return reject(409, {
+            code: 'PRICE_MISMATCH',
+            error: 'Your order total has changed. Please review the updated total and try again.',
+            pricing
+        });
+    }
+
+    return { pricing, customerInfo };
+}
+
+export interface CompletedCheckout {
+    orderRecorded: boolean; // Whether the order was saved now rather than left for a retry
+    customerRecordId?: string; // The Airtable customer the order belongs to
+}
+
+// Record the coupon redemption and the order, notify HeritageBox and email the
+// customer. The customer has already been charged, so these run as outbox jobs
+// (outbox.ts): failures are retried later instead of thrown.
+export async function completePaidCheckout(order: PaidOrder, paymentReference: string): Promise<CompletedCheckout> {
+    const runs = await runOrderJobs(order, paymentReference);
+
+    const recorded = runs.find(run => run.job.type === 'record_order')?.result?.recorded;
+    if (recorded) {
+        logEvent('order_recorded', { orderNumber: order.orderNumber, orderRecordId: recorded.orderRecordId });
+    }
+
+    return { orderRecorded: !!recorded, customerRecordId: recorded?.customerRecordId };
+}
@@ -0,0 +1,83 @@
+import { normalizeEmail } from '../../src/utils/airtableFormula.js';
+import { GIFT_CARD } from '../../src/utils/catalog.js';
+import { sendEmailToHeritageBox } from '../../src/utils/emailUtils.js';
+import { getOrderRepository, type SquareOrderReferences } from './orderRepository.js';
+
+// "Gift a HeritageBox" purchases are recorded in the Airtable "Gift Cards" table
+// (Checkout Session ID, Package, Amount, Purchaser Name, Purchaser Email,
+// Recipient Name, Recipient Email, Message, Square Gift Card ID, GAN Last 4,
+// Square Order ID, Square Payment ID, Status, Purchased At), and HeritageBox
+// sends the gift card to the recipient from the notification email; both run as
+// outbox jobs (outbox.ts). The full gift card number (GAN) stays in Square: only
+// its last four digits are stored or emailed, to find the card in Square by.
+
+export type GiftCardStatus = 'Active' | 'Activation Failed';
+
+export interface GiftCardPurchase {
+    checkoutSessionId: string;
+    packageName: string;
+    amount: number;
+    purchaser: { firstName: string; lastName: string; email: string };
+    recipient: { name: string; email: string };
+    message?: string;
+    squareOrderId: string;
+    paymentId: string;
+    giftCardId?: string;
+    ganLast4?: string;
+    status: GiftCardStatus;
+}
+
+interface GiftCardRecord {
+    id: string;
+    fields: Record<string, unknown>;
+}
+
+export async function findGiftCardByCheckoutSession(checkoutSessionId: string): Promise<GiftCardRecord | null> {
+    return getOrderRepository().findGiftCardByCheckoutSession(checkoutSessionId);
+}
+
+// The gift card bought with a Square payment or order
+export async function findGiftCardBySquareIds(ids: SquareOrderReferences): Promise<GiftCardRecord | null> {
+    return getOrderRepository().findGiftCardBySquareIds(ids);
+}
+
+export async function recordGiftCardPurchase(purchase: GiftCardPurchase): Promise<string> {
+    const record = await getOrderRepository().createGiftCard({
+        'Checkout Session ID': purchase.checkoutSessionId,
+        'Package': purchase.packageName,
+        'Amount': purchase.amount,
+        'Purchaser Name': `${purchase.purchaser.firstName} ${purchase.purchaser.lastName}`,
+        'Purchaser Email': normalizeEmail(purchase.purchaser.email),
+        'Recipient Name': purchase.recipient.name,
+        'Recipient Email': normalizeEmail(purchase.recipient.email),
+        'Message': purchase.message || '',
+        'Square Gift Card ID': purchase.giftCardId || '',
+        'GAN Last 4': purchase.ganLast4 || '',
+        'Square Order ID': purchase.squareOrderId,
+        'Square Payment ID': purchase.paymentId,
+        'Status': purchase.status,
+        'Purchased At': new Date().toISOString()
+    });
+    return record.id;
+}
+
+// Ask HeritageBox to deliver the gift card. Returns whether the email was sent.
+export async function sendGiftCardNotification(purchase: GiftCardPurchase): Promise<boolean> {
+    const purchaserName = `${purchase.purchaser.firstName} ${purchase.purchaser.lastName}`;
+    return sendEmailToHeritageBox({
+        _subject: `🎁 ${GIFT_CARD.name.toUpperCase()} - $${purchase.amount.toFixed(2)} for ${purchase.recipient.name}`,
+        gift_card_status: purchase.status,
+        gift_card_number: purchase.ganLast4 ? `Ending in ${purchase.ganLast4}` : 'Not activated - see Square order',
+        square_gift_card_id: purchase.giftCardId || 'None',
+        gift_card_amount: `$${purchase.amount.toFixed(2)}`,
+        package: purchase.packageName,
+        purchaser_name: purchaserName,
+        purchaser_email: purchase.purchaser.email,
+        recipient_name: purchase.recipient.name,
+        recipient_email: purchase.recipient.email,
+        message: purchase.message || 'None',
+        square_order_id: purchase.squareOrderId,
+        square_payment_id: purchase.paymentId,
+        timestamp: new Date().toISOString()
+    }, 'Gift Card Purchased');
+}
@@ -0,0 +1,18 @@
+// Deterministic Square idempotency keys. The same checkout session and request
+// contents always produce the same key, so a double-click or a network retry
+// is deduplicated by Square instead of charging twice.
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Checkout sessions are random UUIDs created by the checkout page
+export function isCheckoutSessionId(value: unknown): value is string {
+    return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+// Hash the session ID and request parts into a UUID-shaped key (Square allows 45 characters)
+export async function deriveIdempotencyKey(sessionId: string, ...parts: string[]): Promise<string> {
+    const data = new TextEncoder().encode([sessionId, ...parts].join('|'));
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    const hex = Array.from(new Uint8Array(digest).slice(0, 16), byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
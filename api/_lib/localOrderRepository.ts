@@ -0,0 +1,262 @@
+import { SQUARE_CATALOG_ITEMS } from '../../src/utils/squareIntegration.js';
+import {
+    buildCustomerFields,
+    buildOrderFields,
+    buildOrderItemFields,
+    buildProductFields,
+    getProductSku
+} from '../../src/utils/airtableUtils.js';
+import { normalizeEmail } from '../../src/utils/airtableFormula.js';
+import type { AirtableRecord } from './airtable.js';
+import type { TableKey } from './airtableSchema.js';
+import type { OrderRepository, SquareOrderReferences } from './orderRepository.js';
+
+// An order store without Airtable (ORDER_STORE=local). Records use the Airtable
+// table and field names, and record IDs are numbered in creation order
+// (rec00000000000001, ...), so a fresh store gives the same results every run.
+//
+// Node.js only (see orderRepository.ts): every route has to share one store,
+// so the API runs in a single process started by scripts/local-api.mjs. The
+// store lives in memory; with a file it is loaded on first use and written
+// after every change.
+
+interface LocalStoreData {
+    nextId: number;
+    tables: Partial<Record<TableKey, AirtableRecord[]>>;
+}
+
+export interface LocalOrderRepositoryOptions {
+    // JSON file to keep the store in
+    file?: string;
+}
+
+interface FileSystem {
+    readFile(path: string, encoding: 'utf8'): Promise<string>;
+    writeFile(path: string, data: string): Promise<void>;
+}
+
+// The module name is kept out of the import so edge bundles, which also contain
+// this module, don't try to resolve it
+function loadFileSystem(): Promise<FileSystem> {
+    const moduleName = 'node:fs/promises';
+    return import(/* @vite-ignore */ moduleName);
+}
+
+const toRecordId = (id: number) => `rec${String(id).padStart(14, '0')}`;
+
+const copyRecord = (record: AirtableRecord): AirtableRecord => ({ id: record.id, fields: { ...record.fields } });
+
+export function createLocalOrderRepository(options: LocalOrderRepositoryOptions = {}): OrderRepository {
+    let loading: Promise<LocalStoreData> | null = null;
+    let saving = Promise.resolve();
+
+    async function load(): Promise<LocalStoreData> {
+        const empty: LocalStoreData = { nextId: 1, tables: {} };
+        if (!options.file) {
+            return empty;
+        }
+        try {
+            const fs = await loadFileSystem();
+            return JSON.parse(await fs.readFile(options.file, 'utf8'));
+        } catch (error) {
+            if (error.code === 'ENOENT') {
+                return empty;
+            }
+            throw error;
+        }
+    }
+
+    function getStore(): Promise<LocalStoreData> {
+        loading = loading || load();
+        return loading;
+    }
+
+    // Writes are queued so the file always ends up with the latest store
+    function save(store: LocalStoreData): Promise<void> {
+        if (!options.file) {
+            return Promise.resolve();
+        }
+        saving = saving.then(async () => {
+            const fs = await loadFileSystem();
+            await fs.writeFile(options.file, JSON.stringify(store, null, 2));
+        });
+        return saving;
+    }
+
+    async function getTable(key: TableKey): Promise<AirtableRecord[]> {
+        const store = await getStore();
+        store.tables[key] = store.tables[key] || [];
+        return store.tables[key];
+    }
+
+    async function findRecord(key: TableKey, matches: (fields: Record<string, unknown>) => boolean): Promise<AirtableRecord | null> {
+        const record = (await getTable(key)).find(candidate => matches(candidate.fields));
+        return record ? copyRecord(record) : null;
+    }
+
+    async function updateRecord(key: TableKey, recordId: string, fields: Record<string, unknown>): Promise<void> {
+        const store = await getStore();
+        const record = (await getTable(key)).find(candidate => candidate.id === recordId);
+        if (!record) {
+            throw new Error(`Record not found: ${recordId}`);
+        }
+        Object.assign(record.fields, fields);
+        await save(store);
+    }
+
+    async function createRecords(key: TableKey, fieldsList: Record<string, unknown>[]): Promise<AirtableRecord[]> {
+        const store = await getStore();
+        const table = await getTable(key);
+        const created = fieldsList.map(fields => ({ id: toRecordId(store.nextId++), fields: { ...fields } }));
+        table.push(...created);
+        await save(store);
+        return created.map(copyRecord);
+    }
+
+    return {
+        async findOrCreateCustomer(customerInfo) {
+            const email = normalizeEmail(customerInfo.email);
+            const existing = await findRecord('CUSTOMERS', fields => normalizeEmail(String(fields['Email'] || '')) === email);
+            if (existing) {
+                return { recordId: existing.id, isNew: false };
+            }
+            const [created] = await createRecords('CUSTOMERS', [buildCustomerFields(customerInfo)]);
+            return { recordId: created.id, isNew: true };
+        },
+
+        async ensureProductsExist() {
+            const products = await getTable('PRODUCTS');
+            const missingKeys = Object.keys(SQUARE_CATALOG_ITEMS)
+                .filter(key => !products.some(product => product.fields['SKU'] === getProductSku(key)));
+            await createRecords('PRODUCTS', missingKeys.map(buildProductFields));
+
+            const productMap = new Map<string, string>();
+            for (const key of Object.keys(SQUARE_CATALOG_ITEMS)) {
+                productMap.set(key, products.find(product => product.fields['SKU'] === getProductSku(key)).id);
+            }
+            return productMap;
+        },
+
+        async createOrder(orderData, customerRecordId) {
+            if (!orderData.orderNumber) {
+                throw new Error('Order number has not been allocated');
+            }
+            const [created] = await createRecords('ORDERS', [buildOrderFields(orderData, customerRecordId)]);
+            return { recordId: created.id, orderNumber: orderData.orderNumber };
+        },
+
+        async createOrderItems(orderRecordId, orderData, productMap) {
+            const created = await createRecords('ORDER_ITEMS', buildOrderItemFields(orderRecordId, orderData, productMap));
+            return created.map(record => record.id);
+        },
+
+        async allocateOrderSequence(checkoutSessionId) {
+            if (checkoutSessionId) {
+                const existing = await findRecord('ORDER_NUMBERS', fields => fields['Checkout Session ID'] === checkoutSessionId);
+                if (existing) {
+                    return Number(existing.fields['Sequence']);
+                }
+            }
+
+            const sequence = (await getTable('ORDER_NUMBERS')).length + 1;
+            await createRecords('ORDER_NUMBERS', [{
+                'Checkout Session ID': checkoutSessionId || '',
+                'Sequence': sequence,
+                'Allocated At': new Date().toISOString()
+            }]);
+            return sequence;
+        },
+
+        findOrderByCheckoutSession: checkoutSessionId =>
+            findRecord('ORDERS', fields => fields['Checkout Session ID'] === checkoutSessionId),
+
+        findOrderByNumber: orderNumber =>
+            findRecord('ORDERS', fields => fields['Order Number'] === orderNumber),
+
+        async findOrdersBySquareIds(ids: SquareOrderReferences, maxRecords) {
+            const matches = (fields: Record<string, unknown>) =>
+                (!!ids.paymentId && fields['Square Payment ID'] === ids.paymentId) ||
+                (!!ids.orderId && fields['Square Order ID'] === ids.orderId) ||
+                (!!ids.customerId && fields['Square Customer ID'] === ids.customerId);
+
+            // Most recent first; orders from the same day newest first
+            return (await getTable('ORDERS'))
+                .filter(order => matches(order.fields))
+                .sort((a, b) => String(b.fields['Order Date']).localeCompare(String(a.fields['Order Date'])) ||
+                    b.id.localeCompare(a.id))
+                .slice(0, maxRecords)
+                .map(copyRecord);
+        },
+
+        async getCustomer(recordId) {
+            const customer = (await getTable('CUSTOMERS')).find(candidate => candidate.id === recordId);
+            return customer ? copyRecord(customer) : null;
+        },
+
+        updateOrder: (recordId, fields) => updateRecord('ORDERS', recordId, fields),
+
+        createOutboxJobs: jobs => createRecords('OUTBOX_JOBS', jobs),
+
+        async findOutboxJobs(status, maxRecords) {
+            return (await getTable('OUTBOX_JOBS'))
+                .filter(job => job.fields['Status'] === status)
+                .sort((a, b) => String(a.fields['Next Attempt At']).localeCompare(String(b.fields['Next Attempt At'])))
+                .slice(0, maxRecords)
+                .map(copyRecord);
+        },
+
+        async findOutboxJobsByOrder(orderNumber) {
+            return (await getTable('OUTBOX_JOBS'))
+                .filter(job => job.fields['Order Number'] === orderNumber)
+                .map(copyRecord);
+        },
+
+        updateOutboxJob: (recordId, fields) => updateRecord('OUTBOX_JOBS', recordId, fields),
+
+        async countPromoRedemptions(code, email) {
+            const redemptions = (await getTable('PROMO_REDEMPTIONS')).filter(redemption =>
+                redemption.fields['Code'] === code &&
+                (!email || normalizeEmail(String(redemption.fields['Email'] || '')) === normalizeEmail(email)));
+            return redemptions.length;
+        },
+
+        async createPromoRedemption(fields) {
+            await createRecords('PROMO_REDEMPTIONS', [fields]);
+        },
+
+        async createPaymentAttempt(fields) {
+            await createRecords('PAYMENT_ATTEMPTS', [fields]);
+        },
+
+        findGiftCardByCheckoutSession: checkoutSessionId =>
+            findRecord('GIFT_CARDS', fields => fields['Checkout Session ID'] === checkoutSessionId),
+
+        findGiftCardBySquareIds: ids =>
+            findRecord('GIFT_CARDS', fields =>
+                (!!ids.paymentId && fields['Square Payment ID'] === ids.paymentId) ||
+                (!!ids.orderId && fields['Square Order ID'] === ids.orderId)),
+
+        createGiftCard: async fields => (await createRecords('GIFT_CARDS', [fields]))[0],
+
+        findWebhookEvent: eventId =>
+            findRecord('WEBHOOK_EVENTS', fields => fields['Event ID'] === eventId),
+
+        async createWebhookEvent(fields) {
+            await createRecords('WEBHOOK_EVENTS', [fields]);
+        },
+
+        createCardAccessCode: async fields => (await createRecords('CARD_ACCESS_CODES', [fields]))[0],
+
+        findCardAccessCode: challengeId =>
+            findRecord('CARD_ACCESS_CODES', fields => fields['Challenge ID'] === challengeId),
+
+        async findCardAccessCodes(email, createdAfter) {
+            return (await getTable('CARD_ACCESS_CODES'))
+                .filter(code => normalizeEmail(String(code.fields['Email'] || '')) === normalizeEmail(email) &&
+                    String(code.fields['Created At']) > createdAfter)
+                .map(copyRecord);
+        },
+
+        updateCardAccessCode: (recordId, fields) => updateRecord('CARD_ACCESS_CODES', recordId, fields)
+    };
+}
@@ -0,0 +1,14 @@
+import { FIRST_ORDER_SEQUENCE, formatOrderNumber } from '../../src/utils/orderNumbers.js';
+import { getOrderRepository } from './orderRepository.js';
+
+// Order numbers are allocated from the "Order Numbers" table, whose "Sequence"
+// autonumber field gives every new row a unique, increasing value.
+// Sequence 1 maps to FIRST_ORDER_SEQUENCE (HB13405). A checkout session keeps
+// the number it was first given, so retries describe the same order.
+export async function allocateOrderNumber(checkoutSessionId?: string): Promise<string> {
+    const sequence = await getOrderRepository().allocateOrderSequence(checkoutSessionId);
+    if (!Number.isInteger(sequence) || sequence < 1) {
+        throw new Error('Order number allocation failed');
+    }
+    return formatOrderNumber(FIRST_ORDER_SEQUENCE + sequence - 1);
+}
@@ -0,0 +1,94 @@
+import type { OrderWriter } from '../../src/utils/airtableUtils.js';
+import { isAirtableConfigured, type AirtableRecord } from './airtable.js';
+import { airtableOrderRepository } from './airtableOrderRepository.js';
+import { createLocalOrderRepository } from './localOrderRepository.js';
+
+// Where orders are stored. Every read and write of the tables in TABLES by the
+// API routes - customers, products, orders, order items, order numbers, promo
+// redemptions, payment attempts, gift cards, webhook events and outbox jobs -
+// goes through an OrderRepository.
+//
+//   ORDER_STORE=airtable (default)  the Airtable base (AIRTABLE_API_KEY)
+//   ORDER_STORE=local               a store using the same record and field
+//                                   names, for running the API without Airtable.
+//                                   Node.js only: start the API with
+//                                   scripts/local-api.mjs, which runs every route
+//                                   in one process. Saved to ORDER_STORE_FILE when set.
+//
+// Records keep their Airtable shape ({ id, fields }) in both stores.
+
+export interface SquareOrderReferences {
+    paymentId?: string;
+    orderId?: string;
+    customerId?: string;
+}
+
+export interface OrderRepository extends OrderWriter {
+    // The Order Numbers "Sequence" for a checkout session, allocating the next
+    // one the first time the session asks
+    allocateOrderSequence(checkoutSessionId?: string): Promise<number>;
+    findOrderByCheckoutSession(checkoutSessionId: string): Promise<AirtableRecord | null>;
+    findOrderByNumber(orderNumber: string): Promise<AirtableRecord | null>;
+    // Orders matching any of the references, most recent order first
+    findOrdersBySquareIds(ids: SquareOrderReferences, maxRecords: number): Promise<AirtableRecord[]>;
+    getCustomer(recordId: string): Promise<AirtableRecord | null>;
+    // Status, payment and refund updates
+    updateOrder(recordId: string, fields: Record<string, unknown>): Promise<void>;
+    // Side effects of paid orders (outbox.ts); jobs are listed by "Next Attempt At"
+    createOutboxJobs(jobs: Record<string, unknown>[]): Promise<AirtableRecord[]>;
+    findOutboxJobs(status: string, maxRecords: number): Promise<AirtableRecord[]>;
+    findOutboxJobsByOrder(orderNumber: string): Promise<AirtableRecord[]>;
+    updateOutboxJob(recordId: string, fields: Record<string, unknown>): Promise<void>;
+    // Promo Redemptions, counted for usage limits (promotions.ts)
+    countPromoRedemptions(code: string, email?: string): Promise<number>;
+    createPromoRedemption(fields: Record<string, unknown>): Promise<void>;
+    // Payment Attempts (paymentAttempts.ts)
+    createPaymentAttempt(fields: Record<string, unknown>): Promise<void>;
+    // Gift Cards (giftCards.ts)
+    findGiftCardByCheckoutSession(checkoutSessionId: string): Promise<AirtableRecord | null>;
+    // The gift card bought with a Square payment or order (payment or order ID)
+    findGiftCardBySquareIds(ids: SquareOrderReferences): Promise<AirtableRecord | null>;
+    createGiftCard(fields: Record<string, unknown>): Promise<AirtableRecord>;
+    // Square webhook events already processed (square-webhook.ts)
+    findWebhookEvent(eventId: string): Promise<AirtableRecord | null>;
+    createWebhookEvent(fields: Record<string, unknown>): Promise<void>;
+    // Card Access Codes emailed for saved cards (cardAccess.ts)
+    createCardAccessCode(fields: Record<string, unknown>): Promise<AirtableRecord>;
+    findCardAccessCode(challengeId: string): Promise<AirtableRecord | null>;
+    // Codes sent to the email since createdAfter (ISO date and time)
+    findCardAccessCodes(email: string, createdAfter: string): Promise<AirtableRecord[]>;
+    updateCardAccessCode(recordId: string, fields: Record<string, unknown>): Promise<void>;
+}
+
+export type OrderStore = 'airtable' | 'local';
+
+export function getOrderStore(): OrderStore {
+    return process.env.ORDER_STORE === 'local' ? 'local' : 'airtable';
+}
+
+// Whether reads and writes can succeed, e.g. to enforce coupon usage limits
+export function isOrderStoreConfigured(): boolean {
+    return getOrderStore() === 'local' || isAirtableConfigured();
+}
+
+const isNodeRuntime = () => typeof process !== 'undefined' && !!process.versions?.node;
+
+let orderRepository: OrderRepository | null = null;
+
+export function getOrderRepository(): OrderRepository {
+    if (!orderRepository) {
+        if (getOrderStore() === 'local' && !isNodeRuntime()) {
+            // Each edge function would get its own empty store
+            throw new Error('ORDER_STORE=local needs Node.js; start the API with scripts/local-api.mjs');
+        }
+        orderRepository = getOrderStore() === 'local'
+            ? createLocalOrderRepository({ file: process.env.ORDER_STORE_FILE })
+            : airtableOrderRepository;
+    }
+    return orderRepository;
+}
+
+// Replace the store, e.g. with createLocalOrderRepository() in tests
+export function configureOrderRepository(repository: OrderRepository): void {
+    orderRepository = repository;
+}
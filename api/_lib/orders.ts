@@ -0,0 +1,190 @@
+import { createCompleteOrder, type OrderData, type OrderSummary } from '../../src/utils/airtableUtils.js';
+import { formatPackageAllowance, getDigitizingOption, getPackage } from '../../src/utils/catalog.js';
+import { sendEmailToHeritageBox } from '../../src/utils/emailUtils.js';
+import { sendOrderConfirmationToBrevo } from '../../src/utils/brevoUtils.js';
+import type { PriceBreakdown } from '../../src/utils/pricing.js';
+import { normalizeEmail } from '../../src/utils/airtableFormula.js';
+import type { AirtableRecord } from './airtable.js';
+import { getOrderRepository, type SquareOrderReferences } from './orderRepository.js';
+
+// Server-side access to orders, in Airtable or the local store (see orderRepository.ts)
+
+export type OrderStatus = 'Pending' | 'Processing' | 'Shipped' | 'Delivered' | 'Canceled';
+
+export type { AirtableRecord, SquareOrderReferences };
+
+// Find orders matching any of the given Square references. A customer ID can
+// match several orders; the most recent order comes first.
+export async function findOrdersBySquareIds(ids: SquareOrderReferences, maxRecords = 10): Promise<AirtableRecord[]> {
+    return getOrderRepository().findOrdersBySquareIds(ids, maxRecords);
+}
+
+// Find the order created for a Square payment or order
+export async function findOrderBySquareIds(ids: SquareOrderReferences): Promise<AirtableRecord | null> {
+    const [order] = await findOrdersBySquareIds(ids, 1);
+    return order || null;
+}
+
+export async function findOrderByNumber(orderNumber: string): Promise<AirtableRecord | null> {
+    return getOrderRepository().findOrderByNumber(orderNumber);
+}
+
+// The customer linked to an order, if any
+export async function findOrderCustomer(order: AirtableRecord): Promise<AirtableRecord | null> {
+    const customerId = (order.fields['Customer'] as string[] | undefined)?.[0];
+    if (!customerId) {
+        return null;
+    }
+    return getOrderRepository().getCustomer(customerId);
+}
+
+// Look up an order for a customer who knows both its number and their email.
+// Returns null on any mismatch so callers cannot tell which part was wrong.
+export async function lookupCustomerOrder(orderNumber: string, email: string): Promise<OrderSummary | null> {
+    const order = await findOrderByNumber(orderNumber);
+    const customer = order && await findOrderCustomer(order);
+    if (!order || !customer) {
+        return null;
+    }
+
+    const customerEmail = normalizeEmail(String(customer.fields['Email'] || ''));
+    if (!customerEmail || customerEmail !== normalizeEmail(email)) {
+        return null;
+    }
+
+    return {
+        orderNumber: String(order.fields['Order Number']),
+        orderDate: String(order.fields['Order Date'] || ''),
+        status: order.fields['Status'] as OrderStatus,
+        totalAmount: Number(order.fields['Total Amount'] || 0)
+    };
+}
+
+export async function updateOrderFields(recordId: string, fields: Record<string, unknown>): Promise<void> {
+    await getOrderRepository().updateOrder(recordId, fields);
+}
+
+// Details of a charged order, taken from the server-side price breakdown
+export interface PaidOrder {
+    orderNumber: string;
+    checkoutSessionId?: string;
+    pricing: PriceBreakdown;
+    customerInfo: OrderData['customerInfo'];
+    paymentMethod: string;
+    paymentDetails?: OrderData['paymentDetails'];
+}
+
+export async function findOrderByCheckoutSession(checkoutSessionId: string): Promise<AirtableRecord | null> {
+    return getOrderRepository().findOrderByCheckoutSession(checkoutSessionId);
+}
+
+export interface RecordedOrder {
+    orderRecordId: string;
+    orderNumber: string;
+    customerRecordId?: string;
+}
+
+// Create the customer, order and order items. The order number must already be
+// allocated. An order already recorded for the checkout session is returned instead.
+export async function recordOrder(orderData: OrderData): Promise<RecordedOrder> {
+    if (orderData.checkoutSessionId) {
+        const existing = await findOrderByCheckoutSession(orderData.checkoutSessionId);
+        if (existing) {
+            return {
+                orderRecordId: existing.id,
+                orderNumber: String(existing.fields['Order Number']),
+                customerRecordId: (existing.fields['Customer'] as string[] | undefined)?.[0]
+            };
+        }
+    }
+
+    const result = await createCompleteOrder(orderData, getOrderRepository());
+    return { orderRecordId: result.orderRecordId, orderNumber: result.orderNumber, customerRecordId: result.customerRecordId };
+}
+
+// Record a charged order using the server-side price breakdown
+export async function recordPaidOrder(order: PaidOrder): Promise<RecordedOrder> {
+    const { pricing } = order;
+    return recordOrder({
+        orderNumber: order.orderNumber,
+        checkoutSessionId: order.checkoutSessionId,
+        customerInfo: order.customerInfo,
+        orderDetails: {
+            packageType: pricing.packageType,
+            addOns: pricing.lineItems
+                .map(line => line.catalogKey)
+                .filter(key => key !== pricing.packageType),
+            totalAmount: pricing.total,
+            discountCode: pricing.couponCode,
+            discountAmount: pricing.discountAmount,
+            taxAmount: pricing.taxAmount,
+            lineItems: pricing.lineItems
+        },
+        paymentDetails: order.paymentDetails
+    });
+}
+
+// Send the "Order Completed" email to the HeritageBox inbox
+export async function sendOrderNotification(order: PaidOrder): Promise<boolean> {
+    const { pricing, customerInfo } = order;
+    const pkg = getPackage(pricing.packageType);
+    const speed = getDigitizingOption(pricing.digitizingSpeed);
+    const address = customerInfo.address || {};
+
+    const addOns: string[] = [];
+    if (pricing.usbDrives > 0) {
+        addOns.push(`${pricing.usbDrives} USB Drive(s) - $${pricing.usbTotal.toFixed(2)}`);
+    }
+    if (pricing.cloudBackup) {
+        addOns.push('1 Year Cloud Backup - $0.00 (Included)');
+    }
+
+    return sendEmailToHeritageBox({
+        orderId: order.orderNumber,
+        customerInfo: {
+            firstName: customerInfo.firstName,
+            lastName: customerInfo.lastName,
+            fullName: `${customerInfo.firstName} ${customerInfo.lastName}`,
+            email: customerInfo.email,
+            phone: customerInfo.phone,
+            address: [address.address_line_1, address.address_line_2].filter(Boolean).join(', '),
+            city: address.locality,
+            state: address.administrative_district_level_1,
+            zipCode: address.postal_code
+        },
+        orderDetails: {
+            package: pkg.name,
+            packagePrice: `$${pkg.price.toFixed(2)}`,
+            packageFeatures: [formatPackageAllowance(pkg), ...pkg.features].join(', '),
+            subtotal: `$${pricing.subtotal.toFixed(2)}`,
+            couponCode: pricing.couponCode || 'None',
+            discountPercent: pricing.discountPercent,
+            discountAmount: `$${pricing.discountAmount.toFixed(2)}`,
+            salesTax: pricing.taxAmount > 0 ? `$${pricing.taxAmount.toFixed(2)} (${pricing.taxLabel})` : '$0.00',
+            totalAmount: `$${pricing.total.toFixed(2)}`,
+            digitizingSpeed: speed.name,
+            digitizingTime: speed.time,
+            digitizingPrice: speed.price === 0 ? 'Free' : `$${speed.price.toFixed(2)}`,
+            addOns
+        },
+        paymentMethod: order.paymentMethod,
+        timestamp: new Date().toISOString()
+    }, 'Order Completed');
+}
+
+// Email the customer the confirmation of their order through Brevo
+export async function sendOrderConfirmation(order: PaidOrder, apiKey: string): Promise<boolean> {
+    const { pricing, customerInfo } = order;
+    const speed = getDigitizingOption(pricing.digitizingSpeed);
+    const customerName = `${customerInfo.firstName || ''} ${customerInfo.lastName || ''}`.trim();
+
+    return sendOrderConfirmationToBrevo(customerInfo.email, customerName || 'Valued Customer', {
+        orderNumber: order.orderNumber,
+        orderDate: new Date().toLocaleDateString('en-US'),
+        packageName: getPackage(pricing.packageType).name,
+        usbDrives: pricing.usbDrives,
+        digitizingSpeed: speed.name,
+        speedTime: speed.time,
+        total: `$${pricing.total.toFixed(2)}`
+    }, apiKey);
+}
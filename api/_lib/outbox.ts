@@ -0,0 +1,352 @@
+import { sendEmailToHeritageBox } from '../../src/utils/emailUtils.js';
+import type { AirtableRecord } from './airtable.js';
+import { isAnalyticsConfigured, sendPurchaseEvent } from './analytics.js';
+import { recordGiftCardPurchase, sendGiftCardNotification, type GiftCardPurchase } from './giftCards.js';
+import { getOrderRepository } from './orderRepository.js';
+import {
+    recordPaidOrder,
+    sendOrderConfirmation,
+    sendOrderNotification,
+    type PaidOrder,
+    type RecordedOrder
+} from './orders.js';
+import { recordRedemption } from './promotions.js';
+
+// Side effects of a paid order - recording the coupon redemption and the order,
+// notifying HeritageBox, emailing the customer and reporting the purchase to
+// analytics - are saved as jobs in the "Outbox Jobs" table before they run, as
+// are recording a gift card purchase and notifying HeritageBox of it. Gift card
+// jobs are filed under the purchase's Square order ID in place of an order number.
+// The payment request makes the first attempt at each; the scheduled
+// /api/process-outbox retries failed jobs with exponential backoff, and jobs
+// that still fail after MAX_ATTEMPTS are listed by /api/outbox for staff.
+//
+// A job whose status could not be saved after it ran is run again, so every
+// side effect happens at least once and may, rarely, happen twice. When the
+// jobs cannot be saved at all, the ones that fail on their first attempt are
+// dead-lettered: logged with the whole order and emailed to HeritageBox.
+
+// Helper function for structured logging
+function logEvent(event: string, data: Record<string, unknown>) {
+    console.log(JSON.stringify({
+        timestamp: new Date().toISOString(),
+        event,
+        ...data
+    }));
+}
+
+// 10 attempts over about 8.5 hours
+const MAX_ATTEMPTS = 10;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+// A job being run is held back this long so a scheduled run doesn't start it again
+const LEASE_MS = 5 * 60 * 1000;
+
+// In the order they run
+const ORDER_JOB_TYPES = ['record_redemption', 'record_order', 'order_notification', 'customer_confirmation', 'analytics'] as const;
+const GIFT_CARD_JOB_TYPES = ['record_gift_card', 'gift_card_notification'] as const;
+export const OUTBOX_JOB_TYPES = [...ORDER_JOB_TYPES, ...GIFT_CARD_JOB_TYPES] as const;
+export type OutboxJobType = typeof OUTBOX_JOB_TYPES[number];
+
+export const OUTBOX_JOB_STATUSES = ['Pending', 'Done', 'Failed'] as const;
+export type OutboxJobStatus = typeof OUTBOX_JOB_STATUSES[number];
+
+// Order jobs carry the order, gift card jobs the purchase
+export interface OutboxPayload {
+    order?: PaidOrder;
+    giftCard?: GiftCardPurchase;
+    paymentReference?: string;
+}
+
+export interface OutboxJob {
+    recordId?: string; // Unset when the job could not be saved
+    jobId: string;
+    type: OutboxJobType;
+    orderNumber: string;
+    status: OutboxJobStatus;
+    attempts: number;
+    nextAttemptAt: string;
+    lastError?: string;
+    createdAt: string;
+    completedAt?: string;
+    payload: OutboxPayload | null;
+}
+
+export interface JobResult {
+    // Saved as the "Last Error" of a completed job, e.g. why it was skipped
+    note?: string;
+    recorded?: RecordedOrder;
+}
+
+export interface JobRun {
+    job: OutboxJob;
+    result?: JobResult;
+}
+
+// Each handler throws to have the job retried
+const JOB_HANDLERS: Record<OutboxJobType, (payload: OutboxPayload) => Promise<JobResult>> = {
+    async record_redemption({ order, paymentReference }) {
+        await recordRedemption({
+            code: order.pricing.couponCode,
+            email: order.customerInfo.email,
+            paymentId: paymentReference,
+            orderReference: order.orderNumber,
+            discountAmount: order.pricing.discountAmount
+        });
+        return {};
+    },
+
+    async record_order({ order }) {
+        return { recorded: await recordPaidOrder(order) };
+    },
+
+    async order_notification({ order }) {
+        if (!await sendOrderNotification(order)) {
+            throw new Error('Formspree did not accept the order notification');
+        }
+        return {};
+    },
+
+    async customer_confirmation({ order }) {
+        const apiKey = process.env.BREVO_API_KEY;
+        if (!apiKey) {
+            return { note: 'Skipped: BREVO_API_KEY not configured' };
+        }
+        if (!await sendOrderConfirmation(order, apiKey)) {
+            throw new Error('Brevo did not accept the confirmation email');
+        }
+        return {};
+    },
+
+    async analytics({ order }) {
+        if (!isAnalyticsConfigured()) {
+            return { note: 'Skipped: GA_MEASUREMENT_ID or GA_API_SECRET not configured' };
+        }
+        if (!await sendPurchaseEvent(order)) {
+            throw new Error('Google Analytics did not accept the purchase event');
+        }
+        return {};
+    },
+
+    async record_gift_card({ giftCard }) {
+        await recordGiftCardPurchase(giftCard);
+        return {};
+    },
+
+    async gift_card_notification({ giftCard }) {
+        if (!await sendGiftCardNotification(giftCard)) {
+            throw new Error('Formspree did not accept the gift card notification');
+        }
+        return {};
+    }
+};
+
+function isGiftCardJob(type: OutboxJobType): boolean {
+    return (GIFT_CARD_JOB_TYPES as readonly OutboxJobType[]).includes(type);
+}
+
+function getRetryDelay(attempts: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+const later = (ms: number) => new Date(Date.now() + ms).toISOString();
+
+function parsePayload(value: unknown): OutboxPayload | null {
+    try {
+        return JSON.parse(String(value));
+    } catch {
+        return null;
+    }
+}
+
+function toOutboxJob(record: AirtableRecord): OutboxJob {
+    const { fields } = record;
+    return {
+        recordId: record.id,
+        jobId: String(fields['Job ID'] || ''),
+        type: fields['Type'] as OutboxJobType,
+        orderNumber: String(fields['Order Number'] || ''),
+        status: fields['Status'] as OutboxJobStatus,
+        attempts: Number(fields['Attempts'] || 0),
+        nextAttemptAt: String(fields['Next Attempt At'] || ''),
+        lastError: fields['Last Error'] ? String(fields['Last Error']) : undefined,
+        createdAt: String(fields['Created At'] || ''),
+        completedAt: fields['Completed At'] ? String(fields['Completed At']) : undefined,
+        payload: parsePayload(fields['Payload'])
+    };
+}
+
+// The fields that change when a job runs
+function toStatusFields(job: OutboxJob): Record<string, unknown> {
+    return {
+        'Status': job.status,
+        'Attempts': job.attempts,
+        'Next Attempt At': job.nextAttemptAt,
+        'Last Error': job.lastError || '',
+        'Completed At': job.completedAt || null
+    };
+}
+
+async function saveJob(job: OutboxJob): Promise<void> {
+    if (!job.recordId) {
+        return;
+    }
+    try {
+        await getOrderRepository().updateOutboxJob(job.recordId, toStatusFields(job));
+    } catch (error) {
+        logEvent('outbox_job_save_error', { jobId: job.jobId, status: job.status, error: error.message });
+    }
+}
+
+// Run a job once and save the outcome: done, scheduled for a retry, or failed
+// for good after MAX_ATTEMPTS
+export async function runJob(job: OutboxJob): Promise<JobRun> {
+    const attempts = job.attempts + 1;
+    try {
+        const handler = JOB_HANDLERS[job.type];
+        if (!handler || !(isGiftCardJob(job.type) ? job.payload?.giftCard : job.payload?.order)) {
+            throw new Error(`Cannot run job of type "${job.type}" without ${isGiftCardJob(job.type) ? 'a gift card purchase' : 'an order'}`);
+        }
+        const result = await handler(job.payload);
+
+        const done: OutboxJob = { ...job, status: 'Done', attempts, lastError: result.note, completedAt: new Date().toISOString() };
+        logEvent('outbox_job_done', { jobId: job.jobId, type: job.type, attempts, note: result.note });
+        await saveJob(done);
+        return { job: done, result };
+    } catch (error) {
+        const failed = attempts >= MAX_ATTEMPTS;
+        const updated: OutboxJob = {
+            ...job,
+            status: failed ? 'Failed' : 'Pending',
+            attempts,
+            nextAttemptAt: failed ? job.nextAttemptAt : later(getRetryDelay(attempts)),
+            lastError: error.message
+        };
+        logEvent(failed ? 'outbox_job_failed' : 'outbox_job_retry', {
+            jobId: job.jobId,
+            type: job.type,
+            attempts,
+            nextAttemptAt: failed ? undefined : updated.nextAttemptAt,
+            error: error.message
+        });
+        await saveJob(updated);
+        return { job: updated };
+    }
+}
+
+// Jobs that failed and could not be saved for a retry: the log line keeps the
+// whole order or purchase, and the alert doesn't depend on the order store
+async function deadLetter(orderNumber: string, payload: OutboxPayload, runs: JobRun[]): Promise<void> {
+    const failed = runs.map(run => ({ type: run.job.type, error: run.job.lastError }));
+    logEvent('outbox_dead_letter', { orderNumber, jobs: failed, payload });
+
+    const alerted = await sendEmailToHeritageBox({
+        _subject: `⚠️ ORDER NEEDS FOLLOW-UP - ${orderNumber}`,
+        order_number: orderNumber,
+        failed_steps: failed.map(job => `${job.type}: ${job.error}`).join('; '),
+        payment_reference: payload.paymentReference || 'None',
+        payload: JSON.stringify(payload),
+        timestamp: new Date().toISOString()
+    }, 'Order Follow-up Needed').catch(() => false);
+    if (!alerted) {
+        logEvent('outbox_dead_letter_alert_error', { orderNumber });
+    }
+}
+
+// Save the jobs as Pending, then make the first attempt at each. Jobs already
+// saved for the order, e.g. by a retried request, are not created or run again;
+// they are left to /api/process-outbox. If the jobs cannot be saved they are
+// still attempted once, and the failures are dead-lettered.
+async function runJobs(orderNumber: string, types: OutboxJobType[], payload: OutboxPayload): Promise<JobRun[]> {
+    const repository = getOrderRepository();
+    const createdAt = new Date().toISOString();
+    const planned: OutboxJob[] = types
+        .map(type => ({
+            jobId: `${orderNumber} ${type}`,
+            type,
+            orderNumber,
+            status: 'Pending',
+            attempts: 0,
+            // Held back while this request runs it
+            nextAttemptAt: later(LEASE_MS),
+            createdAt,
+            payload
+        }));
+
+    let jobs = planned;
+    let existing: OutboxJob[] = [];
+    try {
+        existing = (await repository.findOutboxJobsByOrder(orderNumber)).map(toOutboxJob);
+        const missing = planned.filter(job => !existing.some(saved => saved.jobId === job.jobId));
+        const records = missing.length > 0 ? await repository.createOutboxJobs(missing.map(job => ({
+            'Job ID': job.jobId,
+            'Type': job.type,
+            'Order Number': job.orderNumber,
+            'Payload': JSON.stringify(job.payload),
+            'Created At': job.createdAt,
+            ...toStatusFields(job)
+        }))) : [];
+        jobs = missing.map((job, index) => ({ ...job, recordId: records[index].id }));
+        if (existing.length > 0) {
+            logEvent('outbox_jobs_exist', { orderNumber, jobIds: existing.map(job => job.jobId) });
+        }
+    } catch (error) {
+        logEvent('outbox_enqueue_error', { orderNumber, error: error.message });
+    }
+
+    const runs: JobRun[] = existing
+        .filter(job => planned.some(plannedJob => plannedJob.jobId === job.jobId))
+        .map(job => ({ job }));
+    for (const job of jobs) {
+        runs.push(await runJob(job));
+    }
+
+    const unsaved = runs.filter(run => !run.job.recordId && run.job.status !== 'Done');
+    if (unsaved.length > 0) {
+        await deadLetter(orderNumber, payload, unsaved);
+    }
+    return runs;
+}
+
+// The side effects of a paid order; see runJobs
+export async function runOrderJobs(order: PaidOrder, paymentReference?: string): Promise<JobRun[]> {
+    const types = ORDER_JOB_TYPES.filter(type => type !== 'record_redemption' || !!order.pricing.couponCode);
+    return runJobs(order.orderNumber, types, { order, paymentReference });
+}
+
+// The side effects of a paid gift card purchase; see runJobs
+export async function runGiftCardJobs(purchase: GiftCardPurchase): Promise<JobRun[]> {
+    return runJobs(purchase.squareOrderId, [...GIFT_CARD_JOB_TYPES], { giftCard: purchase, paymentReference: purchase.paymentId });
+}
+
+// Run the pending jobs that are due, the longest-waiting first. Called on a
+// schedule by /api/process-outbox.
+export async function processDueJobs(maxJobs = 10): Promise<JobRun[]> {
+    const repository = getOrderRepository();
+    const now = Date.now();
+    const due = (await repository.findOutboxJobs('Pending', maxJobs))
+        .map(toOutboxJob)
+        .filter(job => !job.nextAttemptAt || Date.parse(job.nextAttemptAt) <= now);
+
+    const runs: JobRun[] = [];
+    for (const job of due) {
+        // Claim the job before running it
+        await repository.updateOutboxJob(job.recordId, { 'Next Attempt At': later(LEASE_MS) });
+        runs.push(await runJob(job));
+    }
+    return runs;
+}
+
+export async function listJobs(status: OutboxJobStatus, maxRecords = 100): Promise<OutboxJob[]> {
+    const records = await getOrderRepository().findOutboxJobs(status, maxRecords);
+    return records.map(toOutboxJob);
+}
+
+// Put a failed job back in the queue with a fresh set of attempts
+export async function retryJob(recordId: string): Promise<void> {
+    await getOrderRepository().updateOutboxJob(recordId, {
+        'Status': 'Pending',
+        'Attempts': 0,
+        'Next Attempt At': new Date().toISOString()
+    });
+}
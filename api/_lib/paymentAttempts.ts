@@ -0,0 +1,49 @@
+import { normalizeEmail } from '../../src/utils/airtableFormula.js';
+import type { DeclineReason } from '../../src/utils/paymentErrors.js';
+import { getOrderRepository } from './orderRepository.js';
+
+// Every card checkout attempt is logged to the Airtable "Payment Attempts" table
+// (Checkout Session ID, Attempt, Order Number, Email, Amount, Payment Method,
+// Outcome, Decline Reason, Square Code, Square Payment ID, Attempted At) so staff
+// can see why customers could not pay.
+
+export type PaymentAttemptOutcome = 'Succeeded' | 'Declined' | 'Verification Required' | 'Error';
+
+export interface PaymentAttempt {
+    checkoutSessionId: string;
+    attempt: number;
+    orderNumber?: string;
+    email?: string;
+    amount: number;
+    paymentMethod: string;
+    outcome: PaymentAttemptOutcome;
+    declineReason?: DeclineReason;
+    squareCode?: string;
+    paymentId?: string;
+}
+
+// Logging must never block or fail the checkout, so errors are only reported
+export async function recordPaymentAttempt(attempt: PaymentAttempt): Promise<void> {
+    try {
+        await getOrderRepository().createPaymentAttempt({
+            'Checkout Session ID': attempt.checkoutSessionId,
+            'Attempt': attempt.attempt,
+            'Order Number': attempt.orderNumber || '',
+            'Email': attempt.email ? normalizeEmail(attempt.email) : '',
+            'Amount': attempt.amount,
+            'Payment Method': attempt.paymentMethod,
+            'Outcome': attempt.outcome,
+            'Decline Reason': attempt.declineReason || '',
+            'Square Code': attempt.squareCode || '',
+            'Square Payment ID': attempt.paymentId || '',
+            'Attempted At': new Date().toISOString()
+        });
+    } catch (error) {
+        console.log(JSON.stringify({
+            timestamp: new Date().toISOString(),
+            event: 'payment_attempt_record_error',
+            checkoutSessionId: attempt.checkoutSessionId,
+            error: error.message
+        }));
+    }
+}
@@ -0,0 +1,131 @@
+// PayPal Orders v2 REST client. PAYPAL_API_URL is required, like SQUARE_API_URL,
+// so a deployment never takes payments in the sandbox by mistake: set it to
+// https://api-m.paypal.com in production, https://api-m.sandbox.paypal.com for
+// testing, or scripts/mock-paypal-server.mjs to run the checkout offline.
+
+export interface PayPalMoney {
+    currency_code: string;
+    value: string;
+}
+
+export interface PayPalCapture {
+    id: string;
+    status: string;
+    amount: PayPalMoney;
+}
+
+export interface PayPalOrder {
+    id: string;
+    status: string;
+    purchase_units: {
+        custom_id?: string;
+        invoice_id?: string;
+        amount: PayPalMoney;
+        payments?: { captures?: PayPalCapture[] };
+    }[];
+    payer?: { email_address?: string };
+}
+
+export class PayPalApiError extends Error {
+    constructor(message: string, public status: number, public issue?: string) {
+        super(message);
+        this.name = 'PayPalApiError';
+    }
+}
+
+export function isPayPalConfigured(): boolean {
+    return !!process.env.PAYPAL_CLIENT_ID && !!process.env.PAYPAL_CLIENT_SECRET && !!process.env.PAYPAL_API_URL;
+}
+
+function getApiUrl(): string {
+    const apiUrl = process.env.PAYPAL_API_URL;
+    if (!apiUrl) {
+        throw new Error('PAYPAL_API_URL not configured');
+    }
+    return apiUrl;
+}
+
+async function getAccessToken(): Promise<string> {
+    const credentials = btoa(`${process.env.PAYPAL_CLIENT_ID}:${process.env.PAYPAL_CLIENT_SECRET}`);
+    const response = await fetch(`${getApiUrl()}/v1/oauth2/token`, {
+        method: 'POST',
+        headers: {
+            'Authorization': `Basic ${credentials}`,
+            'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: 'grant_type=client_credentials'
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+        throw new PayPalApiError(result.error_description || 'PayPal authentication failed', response.status);
+    }
+    return result.access_token;
+}
+
+async function callPayPal(method: string, path: string, body?: unknown, requestId?: string): Promise<PayPalOrder> {
+    const headers: Record<string, string> = {
+        'Authorization': `Bearer ${await getAccessToken()}`,
+        'Content-Type': 'application/json'
+    };
+    // PayPal replays the original response for a repeated request ID
+    if (requestId) {
+        headers['PayPal-Request-Id'] = requestId;
+    }
+
+    const response = await fetch(`${getApiUrl()}${path}`, {
+        method,
+        headers,
+        body: body ? JSON.stringify(body) : undefined
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+        throw new PayPalApiError(
+            result.details?.[0]?.description || result.message || 'PayPal request failed',
+            response.status,
+            result.details?.[0]?.issue || result.name
+        );
+    }
+    return result;
+}
+
+export interface PayPalOrderRequest {
+    orderNumber: string;
+    amount: number;
+    description: string;
+    requestId: string;
+}
+
+export async function createPayPalOrder(request: PayPalOrderRequest): Promise<PayPalOrder> {
+    return callPayPal('POST', '/v2/checkout/orders', {
+        intent: 'CAPTURE',
+        purchase_units: [{
+            custom_id: request.orderNumber,
+            invoice_id: request.orderNumber,
+            description: request.description,
+            amount: {
+                currency_code: 'USD',
+                value: request.amount.toFixed(2)
+            }
+        }],
+        application_context: {
+            brand_name: 'HeritageBox',
+            shipping_preference: 'NO_SHIPPING',
+            user_action: 'PAY_NOW'
+        }
+    }, request.requestId);
+}
+
+export async function getPayPalOrder(paypalOrderId: string): Promise<PayPalOrder> {
+    return callPayPal('GET', `/v2/checkout/orders/${encodeURIComponent(paypalOrderId)}`);
+}
+
+export async function capturePayPalOrder(paypalOrderId: string, requestId: string): Promise<PayPalOrder> {
+    return callPayPal('POST', `/v2/checkout/orders/${encodeURIComponent(paypalOrderId)}/capture`, {}, requestId);
+}
+
+// The completed capture of an order, if any
+export function getCompletedCapture(order: PayPalOrder): PayPalCapture | undefined {
+    return order.purchase_units?.[0]?.payments?.captures?.find(capture => capture.status === 'COMPLETED');
+}
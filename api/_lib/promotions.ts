@@ -0,0 +1,148 @@
+import {
+    calculateOrderPricing,
+    getDiscountIneligibilityReason,
+    normalizeCouponCode,
+    type AppliedDiscount,
+    type PricingInput
+} from '../../src/utils/pricing.js';
+import { normalizeEmail } from '../../src/utils/airtableFormula.js';
+import { getOrderRepository, isOrderStoreConfigured } from './orderRepository.js';
+
+// Promotion definitions live on the server only so codes never ship in the
+// browser bundle. Redemptions are recorded in the Airtable "Promo Redemptions"
+// table (Code, Email, Payment ID, Order Reference, Discount Amount, Redeemed At).
+export interface Promotion extends AppliedDiscount {
+    description: string;
+    startsAt?: string;          // ISO date, inclusive
+    expiresAt?: string;         // ISO date, exclusive
+    maxRedemptions?: number;    // Across all customers
+    maxRedemptionsPerEmail?: number;
+    singleUse?: boolean;        // Shorthand for maxRedemptions: 1
+}
+
+export const PROMOTIONS: Promotion[] = [
+    {
+        code: 'SAVE15',
+        type: 'percent',
+        value: 15,
+        description: '15% off your order'
+    },
+    {
+        code: '15OFF',
+        type: 'percent',
+        value: 15,
+        description: '15% off your order'
+    }
+];
+
+export type PromotionErrorCode =
+    | 'NOT_FOUND'
+    | 'NOT_STARTED'
+    | 'EXPIRED'
+    | 'USAGE_LIMIT_REACHED'
+    | 'EMAIL_LIMIT_REACHED'
+    | 'EMAIL_REQUIRED'
+    | 'NOT_ELIGIBLE'
+    | 'UNAVAILABLE';
+
+export interface PromotionValidationResult {
+    valid: boolean;
+    promotion?: Promotion;
+    discount?: AppliedDiscount;
+    code?: PromotionErrorCode;
+    error?: string;
+}
+
+export interface PromotionContext {
+    email?: string;
+    pricingInput: PricingInput;
+    now?: Date;
+}
+
+export interface RedemptionRecord {
+    code: string;
+    email: string;
+    paymentId?: string;
+    orderReference?: string;
+    discountAmount: number;
+}
+
+function findPromotion(code: string): Promotion | undefined {
+    const normalized = normalizeCouponCode(code);
+    return PROMOTIONS.find(promotion => promotion.code === normalized);
+}
+
+function getGlobalLimit(promotion: Promotion): number | undefined {
+    return promotion.singleUse ? 1 : promotion.maxRedemptions;
+}
+
+function toAppliedDiscount(promotion: Promotion): AppliedDiscount {
+    return {
+        code: promotion.code,
+        type: promotion.type,
+        value: promotion.value,
+        minOrderValue: promotion.minOrderValue,
+        eligiblePackages: promotion.eligiblePackages,
+        appliesTo: promotion.appliesTo
+    };
+}
+
+function countRedemptions(code: string, email?: string): Promise<number> {
+    return getOrderRepository().countPromoRedemptions(code, email);
+}
+
+// Check a promotion code against dates, usage limits and the cart contents
+export async function validatePromotion(code: string, context: PromotionContext): Promise<PromotionValidationResult> {
+    const promotion = findPromotion(code);
+    if (!promotion) {
+        return { valid: false, code: 'NOT_FOUND', error: 'Invalid coupon code' };
+    }
+
+    const now = context.now || new Date();
+    if (promotion.startsAt && now < new Date(promotion.startsAt)) {
+        return { valid: false, code: 'NOT_STARTED', error: 'This coupon is not active yet' };
+    }
+    if (promotion.expiresAt && now >= new Date(promotion.expiresAt)) {
+        return { valid: false, code: 'EXPIRED', error: 'This coupon has expired' };
+    }
+
+    const discount = toAppliedDiscount(promotion);
+    const pricing = calculateOrderPricing(context.pricingInput);
+    const ineligibleReason = getDiscountIneligibilityReason(discount, pricing.packageType, pricing.lineItems);
+    if (ineligibleReason) {
+        return { valid: false, code: 'NOT_ELIGIBLE', error: ineligibleReason };
+    }
+
+    const globalLimit = getGlobalLimit(promotion);
+    if (globalLimit !== undefined || promotion.maxRedemptionsPerEmail !== undefined) {
+        if (promotion.maxRedemptionsPerEmail !== undefined && !context.email) {
+            return { valid: false, code: 'EMAIL_REQUIRED', error: 'Enter your email address to use this coupon' };
+        }
+        // Usage limits cannot be enforced without the redemption log, so fail closed
+        if (!isOrderStoreConfigured()) {
+            return { valid: false, code: 'UNAVAILABLE', error: 'This coupon cannot be applied right now' };
+        }
+
+        if (globalLimit !== undefined && await countRedemptions(promotion.code) >= globalLimit) {
+            return { valid: false, code: 'USAGE_LIMIT_REACHED', error: 'This coupon has already been fully redeemed' };
+        }
+        if (promotion.maxRedemptionsPerEmail !== undefined &&
+            await countRedemptions(promotion.code, context.email) >= promotion.maxRedemptionsPerEmail) {
+            return { valid: false, code: 'EMAIL_LIMIT_REACHED', error: 'You have already used this coupon' };
+        }
+    }
+
+    return { valid: true, promotion, discount };
+}
+
+// Record a successful redemption so usage limits apply to later orders
+export async function recordRedemption(redemption: RedemptionRecord): Promise<void> {
+    await getOrderRepository().createPromoRedemption({
+        'Code': normalizeCouponCode(redemption.code),
+        'Email': normalizeEmail(redemption.email),
+        'Payment ID': redemption.paymentId || '',
+        'Order Reference': redemption.orderReference || '',
+        'Discount Amount': redemption.discountAmount,
+        'Redeemed At': new Date().toISOString()
+    });
+}
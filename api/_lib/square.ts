@@ -0,0 +1,371 @@
+// Square REST client for the API routes. Every request is sent with the pinned
+// Square-Version, times out after REQUEST_TIMEOUT_MS and is retried with
+// exponential backoff on 429, 5xx and network errors. Only requests that are
+// safe to repeat are sent (reads, and writes carrying an idempotency key).
+
+export const SQUARE_VERSION = '2024-02-15';
+
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 250;
+const RETRY_MAX_DELAY_MS = 4000;
+
+export interface SquareConfig {
+    accessToken: string;
+    locationId: string;
+    apiUrl: string;
+}
+
+export interface SquareMoney {
+    amount: number;
+    currency: string;
+}
+
+export interface SquareErrorDetail {
+    category: string;
+    code: string;
+    detail?: string;
+    field?: string;
+}
+
+export interface SquareAddress {
+    address_line_1?: string;
+    address_line_2?: string;
+    locality?: string;
+    administrative_district_level_1?: string;
+    postal_code?: string;
+    country?: string;
+}
+
+export interface SquareCustomer {
+    id: string;
+    given_name?: string;
+    family_name?: string;
+    email_address?: string;
+    phone_number?: string;
+    address?: SquareAddress;
+    reference_id?: string;
+    created_at?: string;
+    updated_at?: string;
+    version?: number;
+}
+
+export interface SquareOrderLineItem {
+    uid?: string;
+    name?: string;
+    quantity: string;
+    catalog_object_id?: string;
+    item_type?: string;
+    base_price_money?: SquareMoney;
+    total_money?: SquareMoney;
+}
+
+export interface SquareOrder {
+    id: string;
+    location_id: string;
+    state?: string;
+    version?: number;
+    line_items?: SquareOrderLineItem[];
+    total_money?: SquareMoney;
+    total_tax_money?: SquareMoney;
+    total_discount_money?: SquareMoney;
+    metadata?: Record<string, string>;
+}
+
+export interface SquareCardDetails {
+    status?: string;
+    card?: {
+        id?: string;
+        card_brand?: string;
+        last_4?: string;
+        exp_month?: number;
+        exp_year?: number;
+    };
+}
+
+export interface SquarePayment {
+    id: string;
+    status: string;
+    order_id?: string;
+    customer_id?: string;
+    amount_money?: SquareMoney;
+    approved_money?: SquareMoney;
+    total_money?: SquareMoney;
+    refunded_money?: SquareMoney;
+    refund_ids?: string[];
+    card_details?: SquareCardDetails;
+    receipt_url?: string;
+}
+
+export interface SquareCard {
+    id: string;
+    card_brand?: string;
+    last_4?: string;
+    exp_month?: number;
+    exp_year?: number;
+    cardholder_name?: string;
+    customer_id?: string;
+    enabled?: boolean;
+}
+
+export interface SquareRefund {
+    id: string;
+    status: string;
+    payment_id: string;
+    order_id?: string;
+    reason?: string;
+    amount_money: SquareMoney;
+}
+
+export interface SquareGiftCard {
+    id: string;
+    type: string;
+    gan?: string;
+    state?: string;
+    balance_money?: SquareMoney;
+}
+
+export interface SquareCatalogObject {
+    id: string;
+    type: string;
+    version?: number;
+    is_deleted?: boolean;
+    item_data?: { name?: string; variations?: SquareCatalogObject[] };
+    item_variation_data?: { item_id?: string; name?: string; price_money?: SquareMoney };
+}
+
+// What to tell a customer when Square declines their payment method
+const CUSTOMER_MESSAGES: Record<string, string> = {
+    CARD_DECLINED: 'Your card was declined. Please use a different card or contact your bank.',
+    GENERIC_DECLINE: 'Your card was declined. Please use a different card or contact your bank.',
+    CVV_FAILURE: "The security code (CVV) didn't match. Please check it and try again.",
+    VERIFY_CVV_FAILURE: "The security code (CVV) didn't match. Please check it and try again.",
+    ADDRESS_VERIFICATION_FAILURE: "The billing ZIP code didn't match your card. Please check it and try again.",
+    VERIFY_AVS_FAILURE: "The billing ZIP code didn't match your card. Please check it and try again.",
+    INVALID_POSTAL_CODE: "The billing ZIP code didn't match your card. Please check it and try again.",
+    INSUFFICIENT_FUNDS: 'Your card has insufficient funds. Please use a different card.',
+    INVALID_EXPIRATION: 'The expiration date is invalid. Please check it and try again.',
+    EXPIRATION_FAILURE: 'Your card has expired. Please use a different card.',
+    INVALID_CARD: 'The card number is invalid. Please check it and try again.',
+    INVALID_ACCOUNT: 'This card cannot be charged. Please use a different card.',
+    CARD_NOT_SUPPORTED: 'This card type is not supported. Please use a different card.',
+    CARD_EXPIRED: 'Your card has expired. Please use a different card.',
+    TRANSACTION_LIMIT: 'This payment exceeds your card limit. Please use a different card or contact your bank.',
+    VOICE_FAILURE: 'Your bank needs to approve this payment. Please contact your bank or use a different card.',
+    PAN_FAILURE: 'The card number is invalid. Please check it and try again.',
+    ALLOWABLE_PIN_TRIES_EXCEEDED: 'This card has been locked by your bank. Please use a different card.',
+    CARD_DECLINED_CALL_ISSUER: 'Your bank declined this payment. Please call your bank or use a different card.',
+    CARD_DECLINED_VERIFICATION_REQUIRED: 'Your bank needs to verify this card. Please try again and complete the verification step.',
+    BAD_EXPIRATION: 'The expiration date is invalid. Please check it and try again.',
+    CHIP_INSERTION_REQUIRED: 'This card cannot be used online. Please use a different card.',
+    GIFT_CARD_AVAILABLE_AMOUNT: 'This gift card does not have enough balance for the payment.',
+    TEMPORARY_ERROR: 'Our payment processor had a temporary problem. Please try again.',
+    RATE_LIMITED: 'Our payment processor is busy. Please try again in a moment.',
+    TIMEOUT: 'Our payment processor took too long to respond. Please try again.'
+};
+
+const DEFAULT_CUSTOMER_MESSAGE = 'We could not process your payment. Please try again or use a different payment method.';
+
+export function getCustomerMessage(code?: string): string {
+    return (code && CUSTOMER_MESSAGES[code]) || DEFAULT_CUSTOMER_MESSAGE;
+}
+
+export class SquareApiError extends Error {
+    constructor(
+        message: string,
+        public status: number,
+        public code: string,
+        public category?: string,
+        public errors: SquareErrorDetail[] = []
+    ) {
+        super(message);
+        this.name = 'SquareApiError';
+    }
+
+    // Safe to show to the customer, unlike Square's detail message
+    get customerMessage(): string {
+        return getCustomerMessage(this.code);
+    }
+
+    get retryable(): boolean {
+        return this.status === 429 || this.status >= 500;
+    }
+
+    hasCode(code: string): boolean {
+        return this.errors.some(error => error.code === code) || this.code === code;
+    }
+}
+
+// The payment method was declined (category PAYMENT_METHOD_ERROR)
+export class SquarePaymentDeclinedError extends SquareApiError {
+    constructor(message: string, status: number, code: string, errors: SquareErrorDetail[]) {
+        super(message, status, code, 'PAYMENT_METHOD_ERROR', errors);
+        this.name = 'SquarePaymentDeclinedError';
+    }
+}
+
+// No response within REQUEST_TIMEOUT_MS (after retries)
+export class SquareTimeoutError extends SquareApiError {
+    constructor(path: string) {
+        super(`Square request timed out: ${path}`, 504, 'TIMEOUT');
+        this.name = 'SquareTimeoutError';
+    }
+}
+
+export function getSquareConfig(): SquareConfig | null {
+    const config = {
+        accessToken: process.env.SQUARE_ACCESS_TOKEN,
+        locationId: process.env.SQUARE_LOCATION_ID,
+        apiUrl: process.env.SQUARE_API_URL
+    };
+    return config.accessToken && config.locationId && config.apiUrl ? config : null;
+}
+
+function toSquareApiError(status: number, errors: SquareErrorDetail[] = [], path: string): SquareApiError {
+    const [first] = errors;
+    const code = first?.code || (status === 429 ? 'RATE_LIMITED' : 'SQUARE_ERROR');
+    const message = first?.detail || `Square request failed: ${path}`;
+    if (first?.category === 'PAYMENT_METHOD_ERROR') {
+        return new SquarePaymentDeclinedError(message, status, code, errors);
+    }
+    return new SquareApiError(message, status, code, first?.category, errors);
+}
+
+function getRetryDelay(attempt: number, retryAfter: string | null): number {
+    const retryAfterSeconds = Number(retryAfter);
+    if (retryAfterSeconds > 0) {
+        return Math.min(retryAfterSeconds * 1000, RETRY_MAX_DELAY_MS);
+    }
+    const backoff = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+    return backoff / 2 + Math.random() * backoff / 2;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function callSquare<T>(config: SquareConfig, method: string, path: string, body?: unknown): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+        let error: SquareApiError;
+        let retryAfter: string | null = null;
+
+        try {
+            const response = await fetch(`${config.apiUrl}${path}`, {
+                method,
+                headers: {
+                    'Square-Version': SQUARE_VERSION,
+                    'Authorization': `Bearer ${config.accessToken}`,
+                    'Content-Type': 'application/json',
+                },
+                body: body === undefined ? undefined : JSON.stringify(body),
+                signal: controller.signal
+            });
+            const result = await response.json().catch(() => ({}));
+            if (response.ok) {
+                return result as T;
+            }
+            error = toSquareApiError(response.status, result.errors, path);
+            retryAfter = response.headers.get('retry-after');
+        } catch (fetchError) {
+            error = fetchError.name === 'AbortError'
+                ? new SquareTimeoutError(path)
+                : new SquareApiError(fetchError.message || 'Square request failed', 503, 'NETWORK_ERROR');
+        } finally {
+            clearTimeout(timeout);
+        }
+
+        if (!error.retryable || attempt >= MAX_RETRIES) {
+            throw error;
+        }
+        console.warn(JSON.stringify({
+            timestamp: new Date().toISOString(),
+            event: 'square_retry',
+            path,
+            status: error.status,
+            code: error.code,
+            attempt: attempt + 1
+        }));
+        await sleep(getRetryDelay(attempt, retryAfter));
+    }
+}
+
+const pathId = (value: string) => encodeURIComponent(value);
+
+// Square API operations used by HeritageBox, bound to one set of credentials
+export function createSquareClient(config: SquareConfig) {
+    return {
+        config,
+        customers: {
+            search: async (query: Record<string, unknown>) =>
+                (await callSquare<{ customers?: SquareCustomer[] }>(config, 'POST', '/v2/customers/search', { query })).customers || [],
+            create: async (customer: Omit<SquareCustomer, 'id'> & { idempotency_key: string }) =>
+                (await callSquare<{ customer: SquareCustomer }>(config, 'POST', '/v2/customers', customer)).customer,
+            update: async (customerId: string, customer: Partial<SquareCustomer>) =>
+                (await callSquare<{ customer: SquareCustomer }>(config, 'PUT', `/v2/customers/${pathId(customerId)}`, customer)).customer
+        },
+        orders: {
+            create: async (order: Record<string, unknown>, idempotencyKey: string) =>
+                (await callSquare<{ order: SquareOrder }>(config, 'POST', '/v2/orders', {
+                    idempotency_key: idempotencyKey,
+                    order: { location_id: config.locationId, ...order }
+                })).order,
+            pay: async (orderId: string, paymentIds: string[], idempotencyKey: string) =>
+                (await callSquare<{ order: SquareOrder }>(config, 'POST', `/v2/orders/${pathId(orderId)}/pay`, {
+                    idempotency_key: idempotencyKey,
+                    payment_ids: paymentIds
+                })).order
+        },
+        payments: {
+            create: async (payment: Record<string, unknown> & { idempotency_key: string }) =>
+                (await callSquare<{ payment: SquarePayment }>(config, 'POST', '/v2/payments', {
+                    location_id: config.locationId,
+                    ...payment
+                })).payment,
+            get: async (paymentId: string) =>
+                (await callSquare<{ payment: SquarePayment }>(config, 'GET', `/v2/payments/${pathId(paymentId)}`)).payment,
+            cancel: async (paymentId: string) =>
+                (await callSquare<{ payment: SquarePayment }>(config, 'POST', `/v2/payments/${pathId(paymentId)}/cancel`)).payment
+        },
+        cards: {
+            // Cards on file; sourceId is a card nonce or the ID of a payment made with the card
+            create: async (sourceId: string, card: Partial<SquareCard> & { customer_id: string }, idempotencyKey: string, verificationToken?: string) =>
+                (await callSquare<{ card: SquareCard }>(config, 'POST', '/v2/cards', {
+                    idempotency_key: idempotencyKey,
+                    source_id: sourceId,
+                    verification_token: verificationToken,
+                    card
+                })).card,
+            get: async (cardId: string) =>
+                (await callSquare<{ card: SquareCard }>(config, 'GET', `/v2/cards/${pathId(cardId)}`)).card,
+            list: async (customerId: string) =>
+                (await callSquare<{ cards?: SquareCard[] }>(config, 'GET', `/v2/cards?${new URLSearchParams({ customer_id: customerId })}`)).cards || []
+        },
+        refunds: {
+            create: async (refund: { idempotency_key: string; payment_id: string; amount_money: SquareMoney; reason?: string }) =>
+                (await callSquare<{ refund: SquareRefund }>(config, 'POST', '/v2/refunds', refund)).refund
+        },
+        giftCards: {
+            create: async (idempotencyKey: string) =>
+                (await callSquare<{ gift_card: SquareGiftCard }>(config, 'POST', '/v2/gift-cards', {
+                    idempotency_key: idempotencyKey,
+                    location_id: config.locationId,
+                    gift_card: { type: 'DIGITAL' }
+                })).gift_card,
+            createActivity: async (activity: Record<string, unknown>, idempotencyKey: string) =>
+                callSquare<{ gift_card_activity: Record<string, unknown> }>(config, 'POST', '/v2/gift-cards/activities', {
+                    idempotency_key: idempotencyKey,
+                    gift_card_activity: { location_id: config.locationId, ...activity }
+                })
+        },
+        catalog: {
+            get: async (objectId: string) =>
+                (await callSquare<{ object: SquareCatalogObject }>(config, 'GET', `/v2/catalog/object/${pathId(objectId)}`)).object,
+            batchGet: async (objectIds: string[]) =>
+                (await callSquare<{ objects?: SquareCatalogObject[] }>(config, 'POST', '/v2/catalog/batch-retrieve', {
+                    object_ids: objectIds
+                })).objects || []
+        }
+    };
+}
+
+export type SquareClient = ReturnType<typeof createSquareClient>;
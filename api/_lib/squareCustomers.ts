@@ -0,0 +1,145 @@
+import { deriveIdempotencyKey } from './idempotency.js';
+import type { SquareAddress, SquareClient, SquareCustomer } from './square.js';
+
+// Square customer profiles for checkout. A returning customer's profile is
+// reused and brought up to date instead of creating a duplicate:
+//
+// - Square customers are matched by email. When several profiles share the
+//   email, the one linked to an Airtable customer (reference_id) wins, then
+//   the oldest, so every checkout picks the same profile.
+// - A changed phone number or address from the checkout replaces the one on
+//   the profile. Fields the customer left empty are kept.
+// - Once the order is recorded, reference_id is set to the Airtable customer
+//   record ID so the two systems can be joined.
+
+// Helper function for structured logging
+function logEvent(event: string, data: Record<string, unknown>) {
+    console.log(JSON.stringify({
+        timestamp: new Date().toISOString(),
+        event,
+        ...data
+    }));
+}
+
+export interface SquareCustomerData {
+    given_name: string;
+    family_name: string;
+    email_address: string;
+    phone_number?: string;
+    address?: SquareAddress;
+}
+
+const ADDRESS_FIELDS: (keyof SquareAddress)[] = [
+    'address_line_1',
+    'address_line_2',
+    'locality',
+    'administrative_district_level_1',
+    'postal_code',
+    'country'
+];
+
+const normalizeText = (value?: string) => (value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+const normalizePhone = (value?: string) => (value || '').replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+
+// Pick the profile to use when several Square customers share an email
+export function selectCustomerMatch(customers: SquareCustomer[]): SquareCustomer | undefined {
+    return [...customers].sort((a, b) =>
+        Number(!a.reference_id) - Number(!b.reference_id) ||
+        (a.created_at || '').localeCompare(b.created_at || '') ||
+        a.id.localeCompare(b.id)
+    )[0];
+}
+
+// The profile fields that differ from what the customer just entered
+export function getProfileChanges(customer: SquareCustomer, customerData: SquareCustomerData): Partial<SquareCustomer> {
+    const changes: Partial<SquareCustomer> = {};
+
+    if (customerData.phone_number && normalizePhone(customerData.phone_number) !== normalizePhone(customer.phone_number)) {
+        changes.phone_number = customerData.phone_number;
+    }
+
+    const address = customerData.address;
+    if (address?.address_line_1 && ADDRESS_FIELDS.some(field => normalizeText(address[field]) !== normalizeText(customer.address?.[field]))) {
+        changes.address = address;
+    }
+
+    return changes;
+}
+
+async function updateCustomer(
+    customer: SquareCustomer,
+    changes: Partial<SquareCustomer>,
+    square: SquareClient
+): Promise<SquareCustomer> {
+    try {
+        // The version makes Square reject the update if the profile changed meanwhile
+        const updated = await square.customers.update(customer.id, { ...changes, version: customer.version });
+        logEvent('customer_updated', { customerId: customer.id, fields: Object.keys(changes) });
+        return updated;
+    } catch (error) {
+        // A stale profile does not stop the checkout; the order carries the new address
+        logEvent('customer_update_error', { customerId: customer.id, fields: Object.keys(changes), error: error.message });
+        return customer;
+    }
+}
+
+// The customer profile for an email, chosen deterministically among duplicates
+export async function findSquareCustomerByEmail(email: string, square: SquareClient): Promise<SquareCustomer | undefined> {
+    const matches = await square.customers.search({
+        filter: {
+            email_address: {
+                exact: email
+            }
+        },
+        sort: {
+            field: 'CREATED_AT',
+            order: 'ASC'
+        }
+    });
+
+    const customer = selectCustomerMatch(matches);
+    if (matches.length > 1) {
+        logEvent('customer_duplicates', { customerId: customer.id, matchIds: matches.map(match => match.id) });
+    }
+    return customer;
+}
+
+export async function findOrCreateSquareCustomer(
+    customerData: SquareCustomerData,
+    checkoutSessionId: string,
+    square: SquareClient
+): Promise<SquareCustomer> {
+    const existing = await findSquareCustomerByEmail(customerData.email_address, square);
+    if (existing) {
+        logEvent('customer_found', { customerId: existing.id });
+
+        const changes = getProfileChanges(existing, customerData);
+        return Object.keys(changes).length > 0
+            ? updateCustomer(existing, changes, square)
+            : existing;
+    }
+
+    const customer = await square.customers.create({
+        ...customerData,
+        idempotency_key: await deriveIdempotencyKey(checkoutSessionId, 'customer', JSON.stringify(customerData))
+    });
+    logEvent('customer_created', { customerId: customer.id });
+    return customer;
+}
+
+// Tag the Square profile with the Airtable customer record ID. Failures are only logged.
+export async function linkSquareCustomer(customer: SquareCustomer, airtableCustomerId: string, square: SquareClient): Promise<void> {
+    if (customer.reference_id === airtableCustomerId) {
+        return;
+    }
+    if (customer.reference_id) {
+        logEvent('customer_reference_replaced', { customerId: customer.id, previous: customer.reference_id, airtableCustomerId });
+    }
+
+    try {
+        await square.customers.update(customer.id, { reference_id: airtableCustomerId });
+        logEvent('customer_linked', { customerId: customer.id, airtableCustomerId });
+    } catch (error) {
+        logEvent('customer_link_error', { customerId: customer.id, airtableCustomerId, error: error.message });
+    }
+}
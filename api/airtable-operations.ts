@@ -1,9 +1,17 @@
+import { z } from 'zod';
+import { isValidOrderNumber, normalizeOrderNumber } from '../src/utils/orderNumbers.js';
+import { lookupCustomerOrder } from './_lib/orders.js';
+
 export const config = {
     runtime: 'edge',
 };
 
+// Domain operations available to the browser. The Airtable base and tables are
+// fixed on the server, and nothing here lists or searches customer records.
+// Orders are only created by the payment APIs, once the payment has gone through.
+
 // Helper function for structured logging
-function logEvent(event: string, data: any) {
+function logEvent(event: string, data: Record<string, unknown>) {
     console.log(JSON.stringify({
         timestamp: new Date().toISOString(),
         event,
@@ -11,124 +19,63 @@ function logEvent(event: string, data: any) {
     }));
 }
 
-// Airtable MCP operations via server-side MCP calls
-// This would need to be implemented with actual MCP client calls
-// For now, we'll implement direct Airtable API calls
-
-const AIRTABLE_API_URL = 'https://api.airtable.com/v0';
-const AIRTABLE_API_KEY = process.env.AIRTABLE_API_KEY;
-
-async function makeAirtableCall(method: string, endpoint: string, data?: any) {
-    if (!AIRTABLE_API_KEY) {
-        throw new Error('Airtable API key not configured');
-    }
-
-    const response = await fetch(`${AIRTABLE_API_URL}${endpoint}`, {
-        method,
-        headers: {
-            'Authorization': `Bearer ${AIRTABLE_API_KEY}`,
-            'Content-Type': 'application/json',
-        },
-        body: data ? JSON.stringify(data) : undefined,
+function jsonResponse(body: unknown, status: number) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: {'Content-Type': 'application/json'}
     });
+}
 
-    if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Airtable API error: ${response.status} - ${errorText}`);
-    }
+const emailSchema = z.string().trim().email().max(254);
 
-    return await response.json();
-}
+const lookupOrderSchema = z.object({
+    operation: z.literal('lookup_order'),
+    orderNumber: z.string().max(20).refine(isValidOrderNumber, 'Invalid order number'),
+    email: emailSchema
+});
 
-export default async function handler(request: Request) {
-    logEvent('airtable_request_received', {
-        method: request.method,
-        url: request.url
-    });
+const operationSchema = z.discriminatedUnion('operation', [lookupOrderSchema]);
 
+export default async function handler(request: Request) {
     if (request.method !== 'POST') {
-        return new Response(JSON.stringify({success: false, error: 'Method not allowed'}), {
-            status: 405,
-            headers: {'Content-Type': 'application/json'}
-        });
+        return jsonResponse({success: false, error: 'Method not allowed'}, 405);
     }
 
+    let body: unknown;
     try {
-        const body = await request.json();
-        const { operation, baseId, tableId, ...params } = body;
+        body = await request.json();
+    } catch (error) {
+        return jsonResponse({success: false, error: 'Invalid JSON'}, 400);
+    }
 
-        logEvent('airtable_operation', {
-            operation,
-            baseId,
-            tableId,
-            hasParams: Object.keys(params).length > 0
+    const parsed = operationSchema.safeParse(body);
+    if (!parsed.success) {
+        logEvent('airtable_request_rejected', {
+            issues: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
         });
+        return jsonResponse({success: false, error: 'Invalid request'}, 400);
+    }
 
-        let result;
-
-        switch (operation) {
-            case 'list_records':
-                result = await makeAirtableCall('GET', `/${baseId}/${tableId}?${new URLSearchParams(params.query || {})}`);
-                break;
+    const input = parsed.data;
+    logEvent('airtable_operation', { operation: input.operation });
 
-            case 'search_records':
-                const searchParams = new URLSearchParams();
-                if (params.filterByFormula) {
-                    searchParams.append('filterByFormula', params.filterByFormula);
-                }
-                if (params.maxRecords) {
-                    searchParams.append('maxRecords', params.maxRecords.toString());
+    try {
+        switch (input.operation) {
+            case 'lookup_order': {
+                const order = await lookupCustomerOrder(normalizeOrderNumber(input.orderNumber), input.email);
+                if (!order) {
+                    return jsonResponse({success: false, error: 'Order not found'}, 404);
                 }
-                result = await makeAirtableCall('GET', `/${baseId}/${tableId}?${searchParams}`);
-                break;
-
-            case 'create_record':
-                result = await makeAirtableCall('POST', `/${baseId}/${tableId}`, {
-                    records: [{ fields: params.fields }]
-                });
-                // Return single record for consistency
-                result = result.records[0];
-                break;
-
-            case 'update_records':
-                result = await makeAirtableCall('PATCH', `/${baseId}/${tableId}`, {
-                    records: params.records
-                });
-                break;
-
-            case 'get_record':
-                result = await makeAirtableCall('GET', `/${baseId}/${tableId}/${params.recordId}`);
-                break;
-
-            default:
-                return new Response(JSON.stringify({success: false, error: 'Unknown operation'}), {
-                    status: 400,
-                    headers: {'Content-Type': 'application/json'}
-                });
+                return jsonResponse({success: true, data: order}, 200);
+            }
         }
 
-        logEvent('airtable_success', {
-            operation,
-            hasResult: !!result
-        });
-
-        return new Response(JSON.stringify({success: true, data: result}), {
-            status: 200,
-            headers: {'Content-Type': 'application/json'}
-        });
-
     } catch (error) {
         logEvent('airtable_error', {
-            error: error.message,
-            stack: error.stack
+            operation: input.operation,
+            error: error.message
         });
 
-        return new Response(JSON.stringify({
-            success: false,
-            error: error.message || 'Internal server error'
-        }), {
-            status: 500,
-            headers: {'Content-Type': 'application/json'}
-        });
+        return jsonResponse({success: false, error: 'Airtable operation failed'}, 500);
     }
 }
@@ -0,0 +1,62 @@
+import { isAdminConfigured, isAdminRequest } from './_lib/adminAuth.js';
+import { isAirtableConfigured } from './_lib/airtable.js';
+import { applySchema, fetchBaseSchema, verifySchema } from './_lib/airtableSchema.js';
+
+export const config = {
+    runtime: 'edge',
+};
+
+// Checks the Airtable base against the schema the API routes expect
+// (_lib/airtableSchema.ts). Run through scripts/airtable-schema.mjs.
+//
+//   GET  /api/airtable-schema    report missing or mistyped tables and fields
+//   POST /api/airtable-schema    create the missing ones, then report what is left
+//   Authorization: Bearer <ADMIN_API_TOKEN>
+//
+// AIRTABLE_API_KEY needs the schema.bases:read scope, and schema.bases:write to create.
+
+// Helper function for structured logging
+function logEvent(event: string, data: Record<string, unknown>) {
+    console.log(JSON.stringify({
+        timestamp: new Date().toISOString(),
+        event,
+        ...data
+    }));
+}
+
+function jsonResponse(body: unknown, status: number) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: {'Content-Type': 'application/json'}
+    });
+}
+
+export default async function handler(request: Request) {
+    if (request.method !== 'GET' && request.method !== 'POST') {
+        return jsonResponse({success: false, error: 'Method not allowed'}, 405);
+    }
+
+    if (!isAdminConfigured() || !isAirtableConfigured()) {
+        logEvent('configuration_error', {error: 'ADMIN_API_TOKEN or AIRTABLE_API_KEY not configured'});
+        return jsonResponse({success: false, error: 'Schema check not configured'}, 500);
+    }
+    if (!isAdminRequest(request)) {
+        logEvent('airtable_schema_unauthorized', {});
+        return jsonResponse({success: false, error: 'Unauthorized'}, 401);
+    }
+
+    try {
+        if (request.method === 'GET') {
+            const issues = verifySchema(await fetchBaseSchema());
+            logEvent('airtable_schema_verified', { issues: issues.length });
+            return jsonResponse({success: true, issues, changes: []}, 200);
+        }
+
+        const { changes, issues } = await applySchema();
+        logEvent('airtable_schema_applied', { changes, issues: issues.length });
+        return jsonResponse({success: true, issues, changes}, 200);
+    } catch (error) {
+        logEvent('airtable_schema_error', { method: request.method, error: error.message });
+        return jsonResponse({success: false, error: error.message}, 502);
+    }
+}
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { isAdminConfigured, isAdminRequest } from './_lib/adminAuth.js';
+import { listJobs, retryJob, OUTBOX_JOB_STATUSES, type OutboxJobStatus } from './_lib/outbox.js';
+
+export const config = {
+    runtime: 'edge',
+};
+
+// The order side effects outbox (_lib/outbox.ts) for HeritageBox staff. Run
+// through scripts/outbox.mjs.
+//
+//   GET  /api/outbox?status=Failed    jobs with that status (Failed by default)
+//   POST /api/outbox                  { "recordId": "rec..." } puts a job back in the queue
+//   Authorization: Bearer <ADMIN_API_TOKEN>
+
+// Helper function for structured logging
+function logEvent(event: string, data: Record<string, unknown>) {
+    console.log(JSON.stringify({
+        timestamp: new Date().toISOString(),
+        event,
+        ...data
+    }));
+}
+
+function jsonResponse(body: unknown, status: number) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: {'Content-Type': 'application/json'}
+    });
+}
+
+const retrySchema = z.object({
+    recordId: z.string().trim().regex(/^rec\w+$/)
+});
+
+export default async function handler(request: Request) {
+    if (request.method !== 'GET' && request.method !== 'POST') {
+        return jsonResponse({success: false, error: 'Method not allowed'}, 405);
+    }
+
+    if (!isAdminConfigured()) {
+        logEvent('configuration_error', {error: 'ADMIN_API_TOKEN not configured'});
+        return jsonResponse({success: false, error: 'Outbox not configured'}, 500);
+    }
+    if (!isAdminRequest(request)) {
+        logEvent('outbox_unauthorized', {});
+        return jsonResponse({success: false, error: 'Unauthorized'}, 401);
+    }
+
+    try {
+        if (request.method === 'GET') {
+            const status = (new URL(request.url).searchParams.get('status') || 'Failed') as OutboxJobStatus;
+            if (!OUTBOX_JOB_STATUSES.includes(status)) {
+                return jsonResponse({success: false, error: `status must be one of ${OUTBOX_JOB_STATUSES.join(', ')}`}, 400);
+            }
+            // The payload holds the whole order; the order number identifies it
+            const jobs = (await listJobs(status)).map(({ payload: _payload, ...job }) => job);
+            return jsonResponse({success: true, jobs}, 200);
+        }
+
+        const parsed = retrySchema.safeParse(await request.json().catch(() => null));
+        if (!parsed.success) {
+            return jsonResponse({success: false, error: 'recordId is required'}, 400);
+        }
+        await retryJob(parsed.data.recordId);
+        logEvent('outbox_job_requeued', { recordId: parsed.data.recordId });
+        return jsonResponse({success: true}, 200);
+    } catch (error) {
+        logEvent('outbox_error', { method: request.method, error: error.message });
+        return jsonResponse({success: false, error: error.message}, 502);
+    }
+}
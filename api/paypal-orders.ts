@@ -0,0 +1,160 @@
+import { toCents } from '../src/utils/pricing.js';
+import { SQUARE_CATALOG_ITEMS } from '../src/utils/squareIntegration.js';
+import { completePaidCheckout, priceCheckout } from './_lib/checkout.js';
+import { deriveIdempotencyKey, isCheckoutSessionId } from './_lib/idempotency.js';
+import { allocateOrderNumber } from './_lib/orderNumbers.js';
+import { findOrderByCheckoutSession } from './_lib/orders.js';
+import {
+    PayPalApiError,
+    capturePayPalOrder,
+    createPayPalOrder,
+    getCompletedCapture,
+    getPayPalOrder,
+    isPayPalConfigured
+} from './_lib/paypal.js';
+
+export const config = {
+    runtime: 'edge',
+};
+
+// PayPal checkout. The browser calls "create" when the PayPal button is clicked
+// and "capture" once the buyer approves; the order is only recorded after the
+// capture succeeds.
+
+// Helper function for structured logging
+function logEvent(event: string, data: Record<string, unknown>) {
+    console.log(JSON.stringify({
+        timestamp: new Date().toISOString(),
+        event,
+        ...data
+    }));
+}
+
+function jsonResponse(body: unknown, status: number) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: {'Content-Type': 'application/json'}
+    });
+}
+
+export default async function handler(request: Request) {
+    if (request.method !== 'POST') {
+        return jsonResponse({success: false, error: 'Method not allowed'}, 405);
+    }
+
+    if (!isPayPalConfigured()) {
+        logEvent('configuration_error', {error: 'PAYPAL_CLIENT_ID, PAYPAL_CLIENT_SECRET or PAYPAL_API_URL not configured'});
+        return jsonResponse({success: false, error: 'PayPal is not available'}, 500);
+    }
+
+    let body;
+    try {
+        body = await request.json();
+    } catch (error) {
+        return jsonResponse({success: false, error: 'Invalid JSON'}, 400);
+    }
+
+    const { action, amount, orderDetails, checkoutSessionId, paypalOrderId } = body;
+    if ((action !== 'create' && action !== 'capture') || !orderDetails || !isCheckoutSessionId(checkoutSessionId)) {
+        return jsonResponse({success: false, error: 'Missing required fields'}, 400);
+    }
+    if (action === 'capture' && typeof paypalOrderId !== 'string') {
+        return jsonResponse({success: false, error: 'Missing PayPal order'}, 400);
+    }
+
+    try {
+        const { pricing, customerInfo, rejection } = await priceCheckout(orderDetails, amount);
+        if (rejection) {
+            return jsonResponse(rejection.body, rejection.status);
+        }
+
+        // Same number for the whole checkout session, so it matches the PayPal order
+        const orderNumber = await allocateOrderNumber(checkoutSessionId);
+
+        if (action === 'create') {
+            const paypalOrder = await createPayPalOrder({
+                orderNumber,
+                amount: pricing.total,
+                description: `HeritageBox Order - ${SQUARE_CATALOG_ITEMS[pricing.packageType].name}`,
+                requestId: await deriveIdempotencyKey(checkoutSessionId, 'paypal-order', orderNumber, String(toCents(pricing.total)))
+            });
+
+            logEvent('paypal_order_created', { orderNumber, paypalOrderId: paypalOrder.id, amount: pricing.total });
+            return jsonResponse({success: true, paypalOrderId: paypalOrder.id, orderNumber}, 200);
+        }
+
+        // A retry of a capture that already went through returns the recorded order
+        const existingOrder = await findOrderByCheckoutSession(checkoutSessionId);
+        if (existingOrder) {
+            logEvent('checkout_duplicate', { checkoutSessionId, orderNumber: existingOrder.fields['Order Number'] });
+            return jsonResponse({
+                success: true,
+                duplicate: true,
+                orderNumber: existingOrder.fields['Order Number'],
+                orderRecorded: true,
+                pricing
+            }, 200);
+        }
+
+        // Make sure the approved PayPal order is the one created for this checkout
+        const paypalOrder = await getPayPalOrder(paypalOrderId);
+        const purchaseUnit = paypalOrder.purchase_units?.[0];
+        if (purchaseUnit?.custom_id !== orderNumber ||
+            toCents(Number(purchaseUnit.amount?.value)) !== toCents(pricing.total)) {
+            logEvent('paypal_order_mismatch', {
+                orderNumber,
+                paypalOrderId,
+                paypalCustomId: purchaseUnit?.custom_id,
+                paypalAmount: purchaseUnit?.amount?.value,
+                serverAmount: pricing.total
+            });
+            return jsonResponse({
+                success: false,
+                code: 'PRICE_MISMATCH',
+                error: 'Your order total has changed. Please review the updated total and try again.',
+                pricing
+            }, 409);
+        }
+
+        const captured = paypalOrder.status === 'COMPLETED'
+            ? paypalOrder
+            : await capturePayPalOrder(paypalOrderId, await deriveIdempotencyKey(checkoutSessionId, 'paypal-capture', paypalOrderId));
+        const capture = getCompletedCapture(captured);
+        if (!capture) {
+            logEvent('paypal_capture_incomplete', { orderNumber, paypalOrderId, status: captured.status });
+            return jsonResponse({success: false, error: 'PayPal payment was not completed'}, 402);
+        }
+
+        logEvent('paypal_capture_successful', { orderNumber, paypalOrderId, captureId: capture.id, amount: capture.amount.value });
+
+        const { orderRecorded } = await completePaidCheckout({
+            orderNumber,
+            checkoutSessionId,
+            pricing,
+            customerInfo,
+            paymentMethod: 'PayPal',
+            paymentDetails: {
+                paypalOrderId,
+                paypalCaptureId: capture.id
+            }
+        }, capture.id);
+
+        return jsonResponse({success: true, orderNumber, orderRecorded, pricing}, 200);
+
+    } catch (error) {
+        logEvent('paypal_error', {
+            action,
+            paypalOrderId,
+            status: error instanceof PayPalApiError ? error.status : undefined,
+            issue: error instanceof PayPalApiError ? error.issue : undefined,
+            error: error.message
+        });
+
+        // The buyer's funding source was declined - PayPal lets them pick another one
+        if (error instanceof PayPalApiError && error.issue === 'INSTRUMENT_DECLINED') {
+            return jsonResponse({success: false, code: 'INSTRUMENT_DECLINED', error: 'PayPal declined this payment method'}, 402);
+        }
+
+        return jsonResponse({success: false, error: 'PayPal payment failed'}, 500);
+    }
+}
@@ -0,0 +1,58 @@
+import { isAdminRequest, isCronRequest } from './_lib/adminAuth.js';
+import { processDueJobs } from './_lib/outbox.js';
+
+export const config = {
+    runtime: 'edge',
+};
+
+// Retries the side effects of paid orders that have not gone through yet
+// (_lib/outbox.ts). Run every 10 minutes by the Vercel cron job in vercel.json.
+//
+//   GET  /api/process-outbox    Authorization: Bearer <CRON_SECRET>
+//   POST /api/process-outbox    Authorization: Bearer <ADMIN_API_TOKEN>, to run it by hand
+
+// Helper function for structured logging
+function logEvent(event: string, data: Record<string, unknown>) {
+    console.log(JSON.stringify({
+        timestamp: new Date().toISOString(),
+        event,
+        ...data
+    }));
+}
+
+function jsonResponse(body: unknown, status: number) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: {'Content-Type': 'application/json'}
+    });
+}
+
+export default async function handler(request: Request) {
+    if (request.method !== 'GET' && request.method !== 'POST') {
+        return jsonResponse({success: false, error: 'Method not allowed'}, 405);
+    }
+
+    if (!process.env.CRON_SECRET && !process.env.ADMIN_API_TOKEN) {
+        logEvent('configuration_error', {error: 'CRON_SECRET or ADMIN_API_TOKEN not configured'});
+        return jsonResponse({success: false, error: 'Outbox processing not configured'}, 500);
+    }
+    if (!isCronRequest(request) && !isAdminRequest(request)) {
+        logEvent('outbox_unauthorized', {});
+        return jsonResponse({success: false, error: 'Unauthorized'}, 401);
+    }
+
+    try {
+        const runs = await processDueJobs();
+        const summary = {
+            processed: runs.length,
+            done: runs.filter(run => run.job.status === 'Done').length,
+            retrying: runs.filter(run => run.job.status === 'Pending').length,
+            failed: runs.filter(run => run.job.status === 'Failed').length
+        };
+        logEvent('outbox_processed', summary);
+        return jsonResponse({success: true, ...summary}, 200);
+    } catch (error) {
+        logEvent('outbox_process_error', { error: error.message });
+        return jsonResponse({success: false, error: error.message}, 502);
+    }
+}
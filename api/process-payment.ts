@@ -2,15 +2,36 @@ import {
     SQUARE_CATALOG_ITEMS, 
     buildSquareLineItems, 
     buildSquareCustomerData, 
-    mapPackageToSquareCatalog, 
-    mapAddOnsToSquareCatalog,
     type OrderDetails 
 } from '../src/utils/squareIntegration.js';
+import { toCents } from '../src/utils/pricing.js';
+import { getDeclineReason } from '../src/utils/paymentErrors.js';
+import { normalizeEmail } from '../src/utils/airtableFormula.js';
+import { findOrderByCheckoutSession } from './_lib/orders.js';
+import { completePaidCheckout, priceCheckout } from './_lib/checkout.js';
+import { allocateOrderNumber } from './_lib/orderNumbers.js';
+import { readCardAccessToken } from './_lib/cardAccess.js';
+import { deriveIdempotencyKey, isCheckoutSessionId } from './_lib/idempotency.js';
+import { recordPaymentAttempt, type PaymentAttempt } from './_lib/paymentAttempts.js';
+import { findOrCreateSquareCustomer, linkSquareCustomer, type SquareCustomerData } from './_lib/squareCustomers.js';
+import {
+    SquareApiError,
+    SquarePaymentDeclinedError,
+    createSquareClient,
+    getSquareConfig,
+    type SquareClient,
+    type SquareCustomer,
+    type SquareOrder,
+    type SquarePayment
+} from './_lib/square.js';
 
 export const config = {
     runtime: 'edge',
 };
 
+// Wallets the card form offers alongside the card (see SquarePayment.tsx)
+const WALLET_TYPES = ['Apple Pay', 'Google Pay'];
+
 // Helper function for structured logging
 function logEvent(event: string, data: any) {
     console.log(JSON.stringify({
@@ -20,97 +41,51 @@ function logEvent(event: string, data: any) {
     }));
 }
 
-// Square MCP integration functions
-async function findOrCreateCustomer(customerData: any, squareConfig: any) {
-    try {
-        // First try to find existing customer by email
-        const searchResponse = await fetch(`${squareConfig.apiUrl}/v2/customers/search`, {
-            method: 'POST',
-            headers: {
-                'Square-Version': '2024-02-15',
-                'Authorization': `Bearer ${squareConfig.accessToken}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                filter: {
-                    email_address: {
-                        exact: customerData.email_address
-                    }
-                }
-            })
-        });
-
-        const searchResult = await searchResponse.json();
-        
-        if (searchResult.customers && searchResult.customers.length > 0) {
-            logEvent('customer_found', { customerId: searchResult.customers[0].id });
-            return searchResult.customers[0];
-        }
-
-        // Customer not found, create new one
-        const createResponse = await fetch(`${squareConfig.apiUrl}/v2/customers`, {
-            method: 'POST',
-            headers: {
-                'Square-Version': '2024-02-15',
-                'Authorization': `Bearer ${squareConfig.accessToken}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                given_name: customerData.given_name,
-                family_name: customerData.family_name,
-                email_address: customerData.email_address,
-                phone_number: customerData.phone_number,
-                address: customerData.address
-            })
-        });
-
-        const createResult = await createResponse.json();
-        
-        if (!createResponse.ok) {
-            throw new Error(createResult.errors?.[0]?.detail || 'Failed to create customer');
-        }
-
-        logEvent('customer_created', { customerId: createResult.customer.id });
-        return createResult.customer;
-    } catch (error) {
-        logEvent('customer_error', { error: error.message });
-        throw error;
-    }
+interface SquareOrderData {
+    customer: SquareCustomer;
+    // Shipping details as entered at checkout, which may be newer than the Square profile
+    recipient: SquareCustomerData;
+    lineItems: ReturnType<typeof buildSquareLineItems>;
+    orderNumber: string;
+    checkoutSessionId: string;
+    packageType: string;
+    addOns: string[];
+    discountCode?: string;
+    discountAmount?: number;
+    taxRate?: number;
+    taxLabel?: string;
 }
 
-async function createSquareOrder(orderData: any, squareConfig: any) {
+async function createSquareOrder(orderData: SquareOrderData, square: SquareClient): Promise<SquareOrder> {
     try {
         // Build order data
-        const orderRequest: any = {
-            order: {
-                location_id: squareConfig.locationId,
-                line_items: orderData.lineItems,
-                fulfillments: [
-                    {
-                        type: 'SHIPMENT',
-                        state: 'PROPOSED',
-                        shipment_details: {
-                            recipient: {
-                                display_name: `${orderData.customer.given_name} ${orderData.customer.family_name}`,
-                                email_address: orderData.customer.email_address,
-                                phone_number: orderData.customer.phone_number,
-                                address: orderData.customer.address
-                            }
+        const order: Record<string, unknown> = {
+            line_items: orderData.lineItems,
+            fulfillments: [
+                {
+                    type: 'SHIPMENT',
+                    state: 'PROPOSED',
+                    shipment_details: {
+                        recipient: {
+                            display_name: `${orderData.recipient.given_name} ${orderData.recipient.family_name}`,
+                            email_address: orderData.recipient.email_address,
+                            phone_number: orderData.recipient.phone_number,
+                            address: orderData.recipient.address
                         }
                     }
-                ],
-                metadata: {
-                    'package_type': orderData.packageType,
-                    'add_ons': orderData.addOns.join(','),
-                    'customer_id': orderData.customer.id
                 }
-            },
-            idempotency_key: crypto.randomUUID()
+            ],
+            metadata: {
+                'package_type': orderData.packageType,
+                'add_ons': orderData.addOns.join(','),
+                'customer_id': orderData.customer.id,
+                'order_number': orderData.orderNumber
+            }
         };
 
         // Add discount if present
         if (orderData.discountCode && orderData.discountAmount) {
-            orderRequest.order.discounts = [
+            order.discounts = [
                 {
                     name: `Discount Code: ${orderData.discountCode}`,
                     percentage: null,
@@ -128,30 +103,78 @@ async function createSquareOrder(orderData: any, squareConfig: any) {
             });
         }
 
-        const response = await fetch(`${squareConfig.apiUrl}/v2/orders`, {
-            method: 'POST',
-            headers: {
-                'Square-Version': '2024-02-15',
-                'Authorization': `Bearer ${squareConfig.accessToken}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(orderRequest)
-        });
-
-        const result = await response.json();
-        
-        if (!response.ok) {
-            throw new Error(result.errors?.[0]?.detail || 'Failed to create order');
+        // Sales tax for the shipping address, applied by Square after the discount
+        if (orderData.taxRate) {
+            order.taxes = [
+                {
+                    uid: 'sales-tax',
+                    name: orderData.taxLabel || 'Sales Tax',
+                    percentage: String(orderData.taxRate),
+                    type: 'ADDITIVE',
+                    scope: 'ORDER'
+                }
+            ];
         }
 
-        logEvent('order_created', { orderId: result.order.id });
-        return result.order;
+        // Identical order contents within a checkout session map to the same Square order
+        const idempotencyKey = await deriveIdempotencyKey(
+            orderData.checkoutSessionId,
+            'order',
+            JSON.stringify({ location_id: square.config.locationId, ...order })
+        );
+
+        const createdOrder = await square.orders.create(order, idempotencyKey);
+        logEvent('order_created', { orderId: createdOrder.id });
+        return createdOrder;
     } catch (error) {
         logEvent('order_error', { error: error.message });
         throw error;
     }
 }
 
+// Release a gift card authorization when the rest of the payment can't go through
+async function cancelSquarePayment(paymentId: string, square: SquareClient) {
+    try {
+        await square.payments.cancel(paymentId);
+        logEvent('payment_canceled', { paymentId });
+    } catch (error) {
+        logEvent('payment_cancel_error', { paymentId, error: error.message });
+    }
+}
+
+// Save the card just charged to the customer's profile. Square accepts the
+// payment ID as the source, so no second nonce is needed. Failures are only
+// logged: the customer has paid either way.
+async function saveCardOnFile(payment: SquarePayment, customer: SquareCustomer, checkoutSessionId: string, square: SquareClient): Promise<boolean> {
+    try {
+        const card = await square.cards.create(payment.id, {
+            customer_id: customer.id,
+            cardholder_name: [customer.given_name, customer.family_name].filter(Boolean).join(' ') || undefined
+        }, await deriveIdempotencyKey(checkoutSessionId, 'save-card', payment.id));
+        logEvent('card_saved', { customerId: customer.id, cardId: card.id });
+        return true;
+    } catch (error) {
+        logEvent('card_save_error', { customerId: customer.id, paymentId: payment.id, error: error.message });
+        return false;
+    }
+}
+
+// Declines carry a structured reason the checkout page turns into guidance, and
+// a customer-friendly message instead of Square's detail
+function declineResponse(error: SquareApiError) {
+    const verificationRequired = error.hasCode('CARD_DECLINED_VERIFICATION_REQUIRED');
+    return new Response(JSON.stringify({
+        success: false,
+        code: verificationRequired ? 'VERIFICATION_REQUIRED' : 'PAYMENT_DECLINED',
+        declineReason: verificationRequired ? undefined : getDeclineReason(error.code),
+        declineCode: error.code,
+        error: error.customerMessage
+    }), {
+        status: 402,
+        headers: {'Content-Type': 'application/json'}
+    });
+}
+
 export default async function handler(request: Request) {
     logEvent('request_received', {
         method: request.method,
@@ -170,17 +193,25 @@ export default async function handler(request: Request) {
         const body = await request.json();
         logEvent('request_body_parsed', {
             hasToken: !!body.token,
+            hasCardId: !!body.cardId,
             amount: body.amount,
             hasOrderDetails: !!body.orderDetails
         });
 
-        const {token, amount, orderDetails} = body;
+        const {token, giftCardToken, verificationToken, amount, orderDetails, checkoutSessionId, walletType, cardId, cardAccessToken} = body;
+        // A new card (nonce) or a card saved on the customer's profile
+        const cardSource: string | undefined = token || (typeof cardId === 'string' ? cardId : undefined);
+        // Incremented by the checkout page after a failed attempt, so a retry with
+        // another card gets a new payment key while a double submit does not
+        const paymentAttempt = Number.isInteger(body.paymentAttempt) && body.paymentAttempt > 0 ? body.paymentAttempt : 1;
 
-        if (!token || !amount || !orderDetails) {
+        // A gift card can pay on its own or together with a card
+        if ((!cardSource && !giftCardToken) || !amount || !orderDetails || !isCheckoutSessionId(checkoutSessionId)) {
             logEvent('validation_failed', {
-                missingToken: !token,
+                missingToken: !cardSource && !giftCardToken,
                 missingAmount: !amount,
-                missingOrderDetails: !orderDetails
+                missingOrderDetails: !orderDetails,
+                invalidCheckoutSession: !isCheckoutSessionId(checkoutSessionId)
             });
             return new Response(JSON.stringify({success: false, error: 'Missing required fields'}), {
                 status: 400,
@@ -188,114 +219,325 @@ export default async function handler(request: Request) {
             });
         }
 
-        const squareConfig = {
-            accessToken: process.env.SQUARE_ACCESS_TOKEN,
-            locationId: process.env.SQUARE_LOCATION_ID,
-            apiUrl: process.env.SQUARE_API_URL
-        };
+        const squareConfig = getSquareConfig();
 
         logEvent('environment_check', {
-            hasAccessToken: !!squareConfig.accessToken,
-            hasLocationId: !!squareConfig.locationId,
-            hasApiUrl: !!squareConfig.apiUrl
+            hasAccessToken: !!process.env.SQUARE_ACCESS_TOKEN,
+            hasLocationId: !!process.env.SQUARE_LOCATION_ID,
+            hasApiUrl: !!process.env.SQUARE_API_URL
         });
 
-        if (!squareConfig.accessToken || !squareConfig.locationId || !squareConfig.apiUrl) {
+        if (!squareConfig) {
             logEvent('configuration_error', {error: 'Square configuration incomplete'});
             return new Response(JSON.stringify({success: false, error: 'Payment service not configured'}), {
                 status: 500,
                 headers: {'Content-Type': 'application/json'}
             });
         }
+        const square = createSquareClient(squareConfig);
+
+        const { pricing, customerInfo, rejection } = await priceCheckout(orderDetails, amount);
+        if (rejection) {
+            return new Response(JSON.stringify(rejection.body), {
+                status: rejection.status,
+                headers: {'Content-Type': 'application/json'}
+            });
+        }
+
+        const packageType = pricing.packageType;
+        const addOns = pricing.lineItems
+            .map(line => line.catalogKey)
+            .filter(key => key !== packageType);
 
-        // Build Square-compatible order details
-        const packageType = mapPackageToSquareCatalog(orderDetails.packageType || 'starter');
-        const addOns = mapAddOnsToSquareCatalog(orderDetails.addOns || []);
-        
         const squareOrderDetails: OrderDetails = {
             packageType,
             addOns,
-            customerInfo: {
-                firstName: orderDetails.customerInfo?.firstName || orderDetails.firstName,
-                lastName: orderDetails.customerInfo?.lastName || orderDetails.lastName,
-                email: orderDetails.customerInfo?.email || orderDetails.email,
-                phone: orderDetails.customerInfo?.phone || orderDetails.phone,
-                address: orderDetails.customerInfo?.address
-            },
-            discountCode: orderDetails.discountCode,
-            discountAmount: orderDetails.discountAmount,
-            totalAmount: amount
+            lineItems: pricing.lineItems,
+            customerInfo,
+            discountCode: pricing.couponCode,
+            discountAmount: pricing.discountAmount,
+            totalAmount: pricing.total
         };
 
+        // A retry of a checkout that already went through returns the recorded order
+        const existingOrder = await findOrderByCheckoutSession(checkoutSessionId);
+        if (existingOrder) {
+            logEvent('checkout_duplicate', {
+                checkoutSessionId,
+                orderNumber: existingOrder.fields['Order Number']
+            });
+            return new Response(JSON.stringify({
+                success: true,
+                duplicate: true,
+                orderNumber: existingOrder.fields['Order Number'],
+                orderRecorded: true,
+                pricing
+            }), {
+                status: 200,
+                headers: {'Content-Type': 'application/json'}
+            });
+        }
+
+        // Allocated before the Square order so the number is in its metadata.
+        // The session keeps its number across retries so the order stays identical.
+        const orderNumber = await allocateOrderNumber(checkoutSessionId);
+
         // Step 1: Find or create customer
         const customerData = buildSquareCustomerData(squareOrderDetails.customerInfo);
-        const customer = await findOrCreateCustomer(customerData, squareConfig);
+        let customer: SquareCustomer;
+        try {
+            customer = await findOrCreateSquareCustomer(customerData, checkoutSessionId, square);
+        } catch (error) {
+            logEvent('customer_error', { error: error.message });
+            throw error;
+        }
 
-        // Step 2: Build line items from catalog
-        const lineItems = buildSquareLineItems(squareOrderDetails);
+        // A saved card may only be charged by the customer it belongs to, after
+        // they verified their email (see /api/saved-cards)
+        if (!token && cardSource) {
+            const verifiedEmail = await readCardAccessToken(cardAccessToken);
+            const savedCard = verifiedEmail && verifiedEmail === normalizeEmail(customerInfo.email)
+                ? await square.cards.get(cardSource).catch(() => null)
+                : null;
+            if (!savedCard || savedCard.customer_id !== customer.id || savedCard.enabled === false) {
+                logEvent('saved_card_rejected', { customerId: customer.id, verified: !!verifiedEmail });
+                return new Response(JSON.stringify({
+                    success: false,
+                    code: 'SAVED_CARD_UNAVAILABLE',
+                    error: 'This saved card cannot be used. Please verify your email again or enter your card details.'
+                }), {
+                    status: 403,
+                    headers: {'Content-Type': 'application/json'}
+                });
+            }
+        }
+
+        // Step 2: Build line items from the server-side price breakdown
+        const lineItems = buildSquareLineItems(squareOrderDetails.lineItems);
 
         // Step 3: Create order with proper catalog items
         const order = await createSquareOrder({
             customer,
+            recipient: customerData,
             lineItems,
+            orderNumber,
+            checkoutSessionId,
             packageType: packageType,
             addOns: addOns,
             discountCode: squareOrderDetails.discountCode,
-            discountAmount: squareOrderDetails.discountAmount
-        }, squareConfig);
+            discountAmount: squareOrderDetails.discountAmount,
+            taxRate: pricing.taxRate,
+            taxLabel: pricing.taxLabel
+        }, square);
+
+        // Square calculates the tax itself; never charge a total that differs
+        // from the one shown in the order summary
+        if (order.total_money?.amount !== toCents(pricing.total)) {
+            logEvent('order_total_mismatch', {
+                orderId: order.id,
+                squareTotal: order.total_money?.amount,
+                squareTax: order.total_tax_money?.amount,
+                expectedTotal: toCents(pricing.total),
+                expectedTax: toCents(pricing.taxAmount)
+            });
+            return new Response(JSON.stringify({
+                success: false,
+                error: 'We could not confirm the tax on your order. You have not been charged; please contact us to complete your order.'
+            }), {
+                status: 500,
+                headers: {'Content-Type': 'application/json'}
+            });
+        }
 
-        // Step 4: Create payment linked to customer and order
+        // Step 4: Create payments linked to customer and order
         logEvent('creating_payment', {
             customerId: customer.id,
             orderId: order.id,
-            amount
+            amount: pricing.total,
+            withGiftCard: !!giftCardToken
         });
 
-        const paymentResponse = await fetch(`${squareConfig.apiUrl}/v2/payments`, {
-            method: 'POST',
-            headers: {
-                'Square-Version': '2024-02-15',
-                'Authorization': `Bearer ${squareConfig.accessToken}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                source_id: token,
-                amount_money: {
-                    amount: Math.round(amount * 100), // Convert to cents
-                    currency: 'USD'
-                },
-                location_id: squareConfig.locationId,
-                order_id: order.id,
-                buyer_email_address: customer.email_address,
-                note: `HeritageBox Order - ${SQUARE_CATALOG_ITEMS[packageType].name}`,
-                idempotency_key: crypto.randomUUID()
-            })
-        });
+        const totalCents = toCents(pricing.total);
+        const note = `HeritageBox Order - ${SQUARE_CATALOG_ITEMS[packageType].name}`;
+        // Apple Pay and Google Pay tokens are charged like cards; the label is for the order record only
+        const method = WALLET_TYPES.includes(walletType) ? walletType : (token ? 'Credit Card' : 'Saved Card');
+        const attempt: PaymentAttempt = {
+            checkoutSessionId,
+            attempt: paymentAttempt,
+            orderNumber,
+            email: customerInfo.email,
+            amount: pricing.total,
+            paymentMethod: giftCardToken ? (cardSource ? `Gift Card + ${method}` : 'Gift Card') : method,
+            outcome: 'Succeeded'
+        };
 
-        const paymentResult = await paymentResponse.json();
-        
-        if (!paymentResponse.ok) {
-            logEvent('payment_failed', {
-                status: paymentResponse.status,
-                errors: paymentResult.errors
-            });
-            
-            const errorMessage = paymentResult.errors?.[0]?.detail || paymentResult.errors?.[0]?.code || 'Payment failed';
-            throw new Error(errorMessage);
+        // Step 4a: Authorize the gift card for as much of the total as its balance covers
+        let giftCardPayment: SquarePayment | null = null;
+        if (giftCardToken) {
+            try {
+                giftCardPayment = await square.payments.create({
+                    source_id: giftCardToken,
+                    amount_money: { amount: totalCents, currency: 'USD' },
+                    order_id: order.id,
+                    autocomplete: false,
+                    accept_partial_authorization: true,
+                    buyer_email_address: customer.email_address,
+                    note,
+                    idempotency_key: await deriveIdempotencyKey(checkoutSessionId, 'gift-card-payment', order.id, String(paymentAttempt))
+                });
+            } catch (error) {
+                if (!(error instanceof SquareApiError) || error.retryable) throw error;
+                logEvent('gift_card_payment_failed', {
+                    status: error.status,
+                    errors: error.errors
+                });
+                await recordPaymentAttempt({ ...attempt, outcome: 'Declined', squareCode: error.code });
+                return new Response(JSON.stringify({
+                    success: false,
+                    code: 'GIFT_CARD_DECLINED',
+                    error: 'This gift card could not be used. Please check the card number or pay by card.'
+                }), {
+                    status: 402,
+                    headers: {'Content-Type': 'application/json'}
+                });
+            }
+        }
+
+        const giftCardCents = giftCardPayment
+            ? (giftCardPayment.approved_money ?? giftCardPayment.amount_money).amount
+            : 0;
+        const remainingCents = totalCents - giftCardCents;
+
+        // Step 4b: Charge the card for whatever the gift card doesn't cover
+        let cardPayment: SquarePayment | null = null;
+        if (remainingCents > 0) {
+            if (!cardSource) {
+                await cancelSquarePayment(giftCardPayment.id, square);
+                logEvent('gift_card_insufficient', { orderId: order.id, giftCardCents, remainingCents });
+                return new Response(JSON.stringify({
+                    success: false,
+                    code: 'GIFT_CARD_INSUFFICIENT',
+                    error: `Your gift card covers $${(giftCardCents / 100).toFixed(2)}. Please add a card to pay the remaining $${(remainingCents / 100).toFixed(2)}.`,
+                    giftCardAmount: giftCardCents / 100,
+                    remainingAmount: remainingCents / 100
+                }), {
+                    status: 402,
+                    headers: {'Content-Type': 'application/json'}
+                });
+            }
+
+            try {
+                cardPayment = await square.payments.create({
+                    source_id: cardSource,
+                    amount_money: { amount: remainingCents, currency: 'USD' },
+                    order_id: order.id,
+                    // Required for a card on file
+                    customer_id: customer.id,
+                    // Split payments are completed together when the order is paid
+                    autocomplete: !giftCardPayment,
+                    buyer_email_address: customer.email_address,
+                    // Result of verifyBuyer (3-D Secure) in the browser, when the card needed it
+                    verification_token: typeof verificationToken === 'string' ? verificationToken : undefined,
+                    note,
+                    idempotency_key: await deriveIdempotencyKey(checkoutSessionId, 'payment', order.id, String(paymentAttempt))
+                });
+            } catch (error) {
+                logEvent('payment_failed', {
+                    status: error.status,
+                    code: error.code,
+                    errors: error.errors,
+                    verified: typeof verificationToken === 'string'
+                });
+
+                if (giftCardPayment) {
+                    await cancelSquarePayment(giftCardPayment.id, square);
+                }
+
+                // Includes CARD_DECLINED_VERIFICATION_REQUIRED, when the card issuer
+                // requires Strong Customer Authentication that wasn't completed
+                if (error instanceof SquarePaymentDeclinedError) {
+                    const verificationRequired = error.hasCode('CARD_DECLINED_VERIFICATION_REQUIRED');
+                    await recordPaymentAttempt({
+                        ...attempt,
+                        outcome: verificationRequired ? 'Verification Required' : 'Declined',
+                        declineReason: verificationRequired ? undefined : getDeclineReason(error.code),
+                        squareCode: error.code
+                    });
+                    return declineResponse(error);
+                }
+                await recordPaymentAttempt({ ...attempt, outcome: 'Error', squareCode: error.code });
+                throw error;
+            }
+        }
+
+        // Step 4c: Capture the gift card (and card) payments by paying the order
+        if (giftCardPayment) {
+            const paymentIds = [giftCardPayment.id, cardPayment?.id].filter(Boolean);
+            try {
+                await square.orders.pay(order.id, paymentIds, await deriveIdempotencyKey(checkoutSessionId, 'pay-order', order.id, String(paymentAttempt)));
+                logEvent('order_paid', { orderId: order.id, paymentIds });
+            } catch (error) {
+                logEvent('order_payment_error', { orderId: order.id, paymentIds, error: error.message });
+                await Promise.all(paymentIds.map(paymentId => cancelSquarePayment(paymentId, square)));
+                throw error;
+            }
         }
 
+        const payment = cardPayment || giftCardPayment;
         logEvent('payment_successful', {
-            paymentId: paymentResult.payment?.id,
+            paymentId: payment?.id,
+            giftCardPaymentId: giftCardPayment?.id,
             customerId: customer.id,
             orderId: order.id,
-            amount: paymentResult.payment?.amount_money?.amount
+            amount: totalCents,
+            giftCardAmount: giftCardCents
         });
+        await recordPaymentAttempt({ ...attempt, paymentId: payment?.id });
+
+        // Opt-in from the card form; wallet payments have no card to keep
+        const cardSaved = body.saveCard === true && !!token && method === 'Credit Card' && !!cardPayment
+            ? await saveCardOnFile(cardPayment, customer, checkoutSessionId, square)
+            : false;
+
+        // Step 5: Record the order and notify HeritageBox
+        const card = cardPayment?.card_details?.card;
+        const cardLabel = card
+            ? `${method} (${card.card_brand} ending in ${card.last_4})`
+            : method;
+        const paidOrder = {
+            orderNumber,
+            checkoutSessionId,
+            pricing,
+            customerInfo: squareOrderDetails.customerInfo,
+            paymentMethod: giftCardPayment
+                ? (cardPayment ? `Gift Card + ${cardLabel}` : 'Gift Card')
+                : cardLabel,
+            paymentDetails: {
+                paymentId: payment?.id,
+                squareOrderId: order.id,
+                squareCustomerId: customer.id,
+                cardBrand: card?.card_brand,
+                cardLast4: card?.last_4,
+                receiptUrl: payment?.receipt_url,
+                giftCardPaymentId: giftCardPayment?.id,
+                giftCardAmount: giftCardPayment ? giftCardCents / 100 : undefined
+            }
+        };
+
+        const { orderRecorded, customerRecordId } = await completePaidCheckout(paidOrder, payment?.id);
+        if (customerRecordId) {
+            await linkSquareCustomer(customer, customerRecordId, square);
+        }
 
         return new Response(JSON.stringify({
             success: true,
-            payment: paymentResult.payment,
+            orderNumber,
+            orderRecorded,
+            cardSaved,
+            payment,
             customer: customer,
-            order: order
+            order: order,
+            pricing
         }), {
             status: 200,
             headers: {'Content-Type': 'application/json'}
@@ -304,14 +546,15 @@ export default async function handler(request: Request) {
     } catch (error) {
         logEvent('payment_error', {
             error: error.message,
+            code: error.code,
             stack: error.stack
         });
 
         return new Response(JSON.stringify({
             success: false,
-            error: error.message || 'Internal server error'
+            error: error instanceof SquareApiError ? error.customerMessage : (error.message || 'Internal server error')
         }), {
-            status: 500,
+            status: error instanceof SquareApiError && error.retryable ? 503 : 500,
             headers: {'Content-Type': 'application/json'}
         });
     }
@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import { GIFT_CARD, PACKAGES, findPackageBySlug } from '../src/utils/catalog.js';
+import { toCents } from '../src/utils/pricing.js';
+import { deriveIdempotencyKey } from './_lib/idempotency.js';
+import { findGiftCardByCheckoutSession, type GiftCardPurchase } from './_lib/giftCards.js';
+import { runGiftCardJobs } from './_lib/outbox.js';
+import {
+    SquarePaymentDeclinedError,
+    createSquareClient,
+    getSquareConfig,
+    type SquareClient,
+    type SquarePayment
+} from './_lib/square.js';
+
+export const config = {
+    runtime: 'edge',
+};
+
+// "Gift a HeritageBox": charges the buyer's card for a Square gift card worth
+// the chosen package, activates the card and records it for delivery to the
+// recipient. The buyer has been charged by then, so recording the purchase and
+// notifying HeritageBox run as outbox jobs (_lib/outbox.ts) that are retried
+// until they go through.
+
+// Helper function for structured logging
+function logEvent(event: string, data: Record<string, unknown>) {
+    console.log(JSON.stringify({
+        timestamp: new Date().toISOString(),
+        event,
+        ...data
+    }));
+}
+
+function jsonResponse(body: unknown, status: number) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: {'Content-Type': 'application/json'}
+    });
+}
+
+const packageSlugs = PACKAGES.map(pkg => pkg.slug) as [string, ...string[]];
+
+const emailSchema = z.string().trim().email().max(254);
+
+const purchaseSchema = z.object({
+    token: z.string().min(1),
+    verificationToken: z.string().optional(),
+    checkoutSessionId: z.string().uuid(),
+    paymentAttempt: z.number().int().positive().optional(),
+    packageType: z.enum(packageSlugs),
+    purchaser: z.object({
+        firstName: z.string().trim().min(1).max(100),
+        lastName: z.string().trim().min(1).max(100),
+        email: emailSchema
+    }),
+    recipient: z.object({
+        name: z.string().trim().min(1).max(100),
+        email: emailSchema
+    }),
+    message: z.string().trim().max(500).optional()
+});
+
+// Create the gift card and load it with the value of the paid GIFT_CARD line item
+async function issueGiftCard(orderId: string, lineItemUid: string, checkoutSessionId: string, square: SquareClient) {
+    const giftCard = await square.giftCards.create(await deriveIdempotencyKey(checkoutSessionId, 'gift-card'));
+
+    await square.giftCards.createActivity({
+        type: 'ACTIVATE',
+        gift_card_id: giftCard.id,
+        activate_activity_details: {
+            order_id: orderId,
+            line_item_uid: lineItemUid
+        }
+    }, await deriveIdempotencyKey(checkoutSessionId, 'gift-card-activation', giftCard.id));
+
+    logEvent('gift_card_activated', { giftCardId: giftCard.id, orderId });
+    return giftCard;
+}
+
+export default async function handler(request: Request) {
+    if (request.method !== 'POST') {
+        return jsonResponse({success: false, error: 'Method not allowed'}, 405);
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch (error) {
+        return jsonResponse({success: false, error: 'Invalid JSON'}, 400);
+    }
+
+    const parsed = purchaseSchema.safeParse(body);
+    if (!parsed.success) {
+        logEvent('gift_card_request_rejected', {
+            issues: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        });
+        return jsonResponse({success: false, error: 'Invalid request'}, 400);
+    }
+
+    const squareConfig = getSquareConfig();
+    if (!squareConfig) {
+        logEvent('configuration_error', {error: 'Square configuration incomplete'});
+        return jsonResponse({success: false, error: 'Payment service not configured'}, 500);
+    }
+    const square = createSquareClient(squareConfig);
+
+    const input = parsed.data;
+    const { checkoutSessionId } = input;
+    // The schema guarantees the required fields
+    const purchaser = input.purchaser as GiftCardPurchase['purchaser'];
+    const recipient = input.recipient as GiftCardPurchase['recipient'];
+    const paymentAttempt = input.paymentAttempt || 1;
+    // The value is always taken from the catalog, never from the browser
+    const pkg = findPackageBySlug(input.packageType);
+    const amountCents = toCents(pkg.price);
+
+    try {
+        // A retry of a purchase that already went through returns the recorded gift card
+        const existing = await findGiftCardByCheckoutSession(checkoutSessionId);
+        if (existing) {
+            logEvent('gift_card_duplicate', { checkoutSessionId });
+            return jsonResponse({
+                success: true,
+                duplicate: true,
+                amount: existing.fields['Amount'],
+                recipientEmail: existing.fields['Recipient Email']
+            }, 200);
+        }
+
+        const order = await square.orders.create({
+            line_items: [{
+                name: `${GIFT_CARD.name} - ${pkg.name} Package`,
+                quantity: '1',
+                item_type: 'GIFT_CARD',
+                base_price_money: { amount: amountCents, currency: 'USD' }
+            }],
+            metadata: {
+                checkout_session_id: checkoutSessionId,
+                recipient_email: recipient.email
+            }
+        }, await deriveIdempotencyKey(checkoutSessionId, 'gift-card-order', pkg.key));
+
+        let payment: SquarePayment;
+        try {
+            payment = await square.payments.create({
+                source_id: input.token,
+                verification_token: input.verificationToken,
+                amount_money: { amount: amountCents, currency: 'USD' },
+                order_id: order.id,
+                buyer_email_address: purchaser.email,
+                note: `${GIFT_CARD.name} - ${pkg.name} Package for ${recipient.name}`,
+                idempotency_key: await deriveIdempotencyKey(checkoutSessionId, 'gift-card-payment', order.id, String(paymentAttempt))
+            });
+        } catch (error) {
+            if (!(error instanceof SquarePaymentDeclinedError)) throw error;
+            logEvent('gift_card_payment_failed', { code: error.code, errors: error.errors });
+            return jsonResponse({
+                success: false,
+                code: error.hasCode('CARD_DECLINED_VERIFICATION_REQUIRED') ? 'VERIFICATION_REQUIRED' : error.code,
+                error: error.customerMessage
+            }, 402);
+        }
+
+        logEvent('gift_card_payment_successful', { orderId: order.id, paymentId: payment.id, amount: amountCents });
+
+        const purchase: GiftCardPurchase = {
+            checkoutSessionId,
+            packageName: pkg.name,
+            amount: pkg.price,
+            purchaser,
+            recipient,
+            message: input.message,
+            squareOrderId: order.id,
+            paymentId: payment.id,
+            status: 'Active'
+        };
+
+        // The buyer has been charged, so an activation failure is recorded for
+        // HeritageBox to fix by hand rather than reported as a failed purchase
+        try {
+            const giftCard = await issueGiftCard(order.id, order.line_items[0].uid, checkoutSessionId, square);
+            purchase.giftCardId = giftCard.id;
+            purchase.ganLast4 = giftCard.gan?.slice(-4);
+        } catch (error) {
+            purchase.status = 'Activation Failed';
+            logEvent('gift_card_activation_error', { orderId: order.id, paymentId: payment.id, error: error.message });
+        }
+
+        const runs = await runGiftCardJobs(purchase);
+        const pending = runs.filter(run => run.job.status !== 'Done').map(run => run.job.type);
+        if (pending.length > 0) {
+            logEvent('gift_card_jobs_pending', { orderId: order.id, paymentId: payment.id, jobs: pending });
+        }
+
+        return jsonResponse({
+            success: true,
+            amount: pkg.price,
+            recipientEmail: recipient.email,
+            receiptUrl: payment.receipt_url
+        }, 200);
+
+    } catch (error) {
+        logEvent('gift_card_error', {
+            checkoutSessionId,
+            error: error.message
+        });
+        return jsonResponse({success: false, error: 'Gift card purchase failed'}, 500);
+    }
+}
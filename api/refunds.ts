@@ -0,0 +1,264 @@
+import { z } from 'zod';
+import { sendRefundNoticeToBrevo } from '../src/utils/brevoUtils.js';
+import { normalizeOrderNumber } from '../src/utils/orderNumbers.js';
+import { fromCents, toCents } from '../src/utils/pricing.js';
+import { isAdminConfigured, isAdminRequest } from './_lib/adminAuth.js';
+import { deriveIdempotencyKey } from './_lib/idempotency.js';
+import { findOrderByNumber, findOrderCustomer, updateOrderFields } from './_lib/orders.js';
+import { createSquareClient, getSquareConfig, type SquarePayment, type SquareRefund } from './_lib/square.js';
+
+export const config = {
+    runtime: 'edge',
+};
+
+// Refunds for HeritageBox staff. Refunds all or part of an order's Square
+// payments, records completed refunds on the Airtable order and emails the
+// customer. Refunds Square has not completed yet are recorded by the Square
+// webhook once they are; it writes the same absolute amounts.
+//
+//   POST /api/refunds
+//   Authorization: Bearer <ADMIN_API_TOKEN>
+//   { "orderNumber": "HB13407-2", "amount": 25, "reason": "Damaged USB drive", "requestId": "<uuid>" }
+//
+// Omit amount to refund everything not refunded yet. Send the same requestId
+// when retrying a request whose response was lost so Square does not refund twice:
+// it returns the original refunds, which are reported as replayed and not
+// notified again. An order already refunded in full is reported as such rather
+// than as an error.
+
+// Helper function for structured logging
+function logEvent(event: string, data: Record<string, unknown>) {
+    console.log(JSON.stringify({
+        timestamp: new Date().toISOString(),
+        event,
+        ...data
+    }));
+}
+
+function jsonResponse(body: unknown, status: number) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: {'Content-Type': 'application/json'}
+    });
+}
+
+const refundSchema = z.object({
+    orderNumber: z.string().trim().min(1).max(50).transform(normalizeOrderNumber),
+    amount: z.number().positive().optional(),
+    reason: z.string().trim().min(1).max(192), // Square's limit for refund reasons
+    requestId: z.string().uuid().optional()
+});
+
+function getPaymentCents(payment: SquarePayment) {
+    const totalCents = payment.total_money?.amount ?? payment.amount_money?.amount ?? 0;
+    const refundedCents = payment.refunded_money?.amount || 0;
+    return { totalCents, refundedCents, refundableCents: Math.max(totalCents - refundedCents, 0) };
+}
+
+// Split a refund across the order's payments, the card payment first
+function allocateRefund(payments: SquarePayment[], refundCents: number): { payment: SquarePayment; cents: number }[] {
+    const allocations: { payment: SquarePayment; cents: number }[] = [];
+    let unallocated = refundCents;
+    for (const payment of payments) {
+        const cents = Math.min(getPaymentCents(payment).refundableCents, unallocated);
+        if (cents > 0) {
+            allocations.push({ payment, cents });
+            unallocated -= cents;
+        }
+    }
+    return allocations;
+}
+
+export default async function handler(request: Request) {
+    if (request.method !== 'POST') {
+        return jsonResponse({success: false, error: 'Method not allowed'}, 405);
+    }
+
+    if (!isAdminConfigured()) {
+        logEvent('configuration_error', {error: 'ADMIN_API_TOKEN not configured'});
+        return jsonResponse({success: false, error: 'Refunds not configured'}, 500);
+    }
+    if (!isAdminRequest(request)) {
+        logEvent('refund_unauthorized', {});
+        return jsonResponse({success: false, error: 'Unauthorized'}, 401);
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch (error) {
+        return jsonResponse({success: false, error: 'Invalid JSON'}, 400);
+    }
+
+    const parsed = refundSchema.safeParse(body);
+    if (!parsed.success) {
+        return jsonResponse({
+            success: false,
+            error: 'Invalid request',
+            issues: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        }, 400);
+    }
+
+    const squareConfig = getSquareConfig();
+    if (!squareConfig) {
+        logEvent('configuration_error', {error: 'Square configuration incomplete'});
+        return jsonResponse({success: false, error: 'Payment service not configured'}, 500);
+    }
+    const square = createSquareClient(squareConfig);
+
+    const { orderNumber, amount, reason } = parsed.data;
+    const requestId = parsed.data.requestId || crypto.randomUUID();
+
+    try {
+        const order = await findOrderByNumber(orderNumber);
+        if (!order) {
+            return jsonResponse({success: false, error: 'Order not found'}, 404);
+        }
+
+        // Gift card orders may have a second payment for the part the gift card covered
+        const paymentIds = [...new Set([
+            order.fields['Square Payment ID'],
+            order.fields['Gift Card Payment ID']
+        ].filter((id): id is string => typeof id === 'string' && id.length > 0))];
+        if (paymentIds.length === 0) {
+            return jsonResponse({
+                success: false,
+                error: 'This order has no Square payment to refund (PayPal orders are refunded in PayPal)'
+            }, 422);
+        }
+
+        const payments = await Promise.all(paymentIds.map(paymentId => square.payments.get(paymentId)));
+        const paidCents = payments.reduce((sum, payment) => sum + getPaymentCents(payment).totalCents, 0);
+        const alreadyRefundedCents = payments.reduce((sum, payment) => sum + getPaymentCents(payment).refundedCents, 0);
+        const refundableCents = paidCents - alreadyRefundedCents;
+
+        if (refundableCents <= 0) {
+            logEvent('refund_already_complete', { orderNumber, requestId });
+            return jsonResponse({
+                success: true,
+                alreadyRefunded: true,
+                orderNumber,
+                requestId,
+                refunds: [],
+                refundedAmount: 0,
+                totalRefunded: fromCents(alreadyRefundedCents),
+                fullRefund: true,
+                recorded: false,
+                customerNotified: false
+            }, 200);
+        }
+
+        const refundCents = amount === undefined ? refundableCents : toCents(amount);
+        if (refundCents > refundableCents) {
+            return jsonResponse({
+                success: false,
+                error: `At most $${fromCents(refundableCents).toFixed(2)} can be refunded on this order`,
+                refundableAmount: fromCents(refundableCents)
+            }, 422);
+        }
+
+        const refunds: SquareRefund[] = [];
+        for (const { payment, cents } of allocateRefund(payments, refundCents)) {
+            try {
+                refunds.push(await square.refunds.create({
+                    idempotency_key: await deriveIdempotencyKey(requestId, 'refund', payment.id),
+                    payment_id: payment.id,
+                    amount_money: { amount: cents, currency: 'USD' },
+                    reason
+                }));
+            } catch (error) {
+                // Earlier refunds have gone through, so they are still recorded below
+                logEvent('refund_failed', { orderNumber, paymentId: payment.id, cents, error: error.message });
+                if (refunds.length === 0) {
+                    return jsonResponse({success: false, error: error.message || 'Refund failed'}, 502);
+                }
+                break;
+            }
+        }
+
+        // Refunds Square already had are replays of an earlier request with this requestId
+        const existingRefundIds = new Set(payments.flatMap(payment => payment.refund_ids || []));
+        const isReplayed = (refund: SquareRefund) => existingRefundIds.has(refund.id);
+        const sumCents = (list: SquareRefund[]) => list.reduce((sum, refund) => sum + refund.amount_money.amount, 0);
+        const refundedCents = sumCents(refunds.filter(refund => !isReplayed(refund)));
+
+        // Square's own total, which counts every refund exactly once
+        const refreshed = await Promise.all(paymentIds.map(paymentId => square.payments.get(paymentId)));
+        const totalRefundedCents = refreshed.reduce((sum, payment) => sum + getPaymentCents(payment).refundedCents, 0);
+        const fullRefund = totalRefundedCents >= paidCents;
+        logEvent('refund_created', {
+            orderNumber,
+            requestId,
+            refundIds: refunds.map(refund => refund.id),
+            replayedRefundIds: refunds.filter(isReplayed).map(refund => refund.id),
+            refundedCents,
+            totalRefundedCents,
+            fullRefund
+        });
+
+        // A pending refund can still fail, so only completed refunds are written
+        // here; the webhook records the rest once Square completes them
+        let recorded = false;
+        if (refunds.every(refund => refund.status === 'COMPLETED')) {
+            const fields: Record<string, unknown> = {
+                'Refunded Amount': fromCents(totalRefundedCents),
+                'Refund Reason': reason
+            };
+            if (fullRefund) {
+                fields['Status'] = 'Canceled';
+            }
+            try {
+                await updateOrderFields(order.id, fields);
+                recorded = true;
+            } catch (error) {
+                // The webhook records the refund as well
+                logEvent('refund_record_error', { orderNumber, error: error.message });
+            }
+        } else {
+            logEvent('refund_pending', { orderNumber, refundIds: refunds.map(refund => refund.id) });
+        }
+
+        let customerNotified = false;
+        try {
+            const customer = await findOrderCustomer(order);
+            const apiKey = process.env.BREVO_API_KEY;
+            if (refundedCents === 0) {
+                logEvent('refund_notice_skipped', { orderNumber, reason: 'Replayed refunds were notified already' });
+            } else if (!apiKey) {
+                logEvent('refund_notice_skipped', { orderNumber, reason: 'BREVO_API_KEY not configured' });
+            } else if (customer?.fields['Email']) {
+                customerNotified = await sendRefundNoticeToBrevo(
+                    String(customer.fields['Email']),
+                    String(customer.fields['Name'] || ''),
+                    { orderNumber, refundAmount: fromCents(refundedCents), fullRefund, reason },
+                    apiKey
+                );
+            }
+        } catch (error) {
+            logEvent('refund_notice_error', { orderNumber, error: error.message });
+        }
+
+        return jsonResponse({
+            success: true,
+            partial: sumCents(refunds) < refundCents,
+            orderNumber,
+            requestId,
+            refunds: refunds.map(refund => ({
+                id: refund.id,
+                paymentId: refund.payment_id,
+                status: refund.status,
+                amount: fromCents(refund.amount_money.amount),
+                replayed: isReplayed(refund)
+            })),
+            refundedAmount: fromCents(refundedCents),
+            totalRefunded: fromCents(totalRefundedCents),
+            fullRefund,
+            recorded,
+            customerNotified
+        }, 200);
+
+    } catch (error) {
+        logEvent('refund_error', { orderNumber, error: error.message });
+        return jsonResponse({success: false, error: 'Refund failed'}, 500);
+    }
+}
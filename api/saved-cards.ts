@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import { sendCardAccessCodeToBrevo } from '../src/utils/brevoUtils.js';
+import {
+    createEmailChallenge,
+    isCardAccessConfigured,
+    readCardAccessToken,
+    redeemEmailChallenge
+} from './_lib/cardAccess.js';
+import { isOrderStoreConfigured } from './_lib/orderRepository.js';
+import { createSquareClient, getSquareConfig, type SquareCard, type SquareClient } from './_lib/square.js';
+import { findSquareCustomerByEmail } from './_lib/squareCustomers.js';
+
+export const config = {
+    runtime: 'edge',
+};
+
+// Cards saved by returning customers (see _lib/cardAccess.ts):
+//   request_code  { email }                     emails a code, returns a challenge
+//   verify        { email, code, challenge }    returns a card access token and the saved cards
+//   list          { cardAccessToken }           returns the saved cards again
+
+// Helper function for structured logging
+function logEvent(event: string, data: Record<string, unknown>) {
+    console.log(JSON.stringify({
+        timestamp: new Date().toISOString(),
+        event,
+        ...data
+    }));
+}
+
+function jsonResponse(body: unknown, status: number) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: {'Content-Type': 'application/json'}
+    });
+}
+
+const emailSchema = z.string().trim().email().max(254);
+
+const requestSchema = z.discriminatedUnion('action', [
+    z.object({ action: z.literal('request_code'), email: emailSchema }),
+    z.object({
+        action: z.literal('verify'),
+        email: emailSchema,
+        code: z.string().trim().regex(/^\d{8}$/),
+        challenge: z.string().min(1).max(2000)
+    }),
+    z.object({ action: z.literal('list'), cardAccessToken: z.string().min(1).max(2000) })
+]);
+
+// Only what the payment step needs to show the card
+function toSavedCard(card: SquareCard) {
+    return {
+        id: card.id,
+        brand: card.card_brand,
+        last4: card.last_4,
+        expMonth: card.exp_month,
+        expYear: card.exp_year
+    };
+}
+
+async function listSavedCards(email: string, square: SquareClient) {
+    const customer = await findSquareCustomerByEmail(email, square);
+    if (!customer) {
+        return [];
+    }
+    const cards = await square.cards.list(customer.id);
+    return cards.filter(card => card.enabled !== false).map(toSavedCard);
+}
+
+export default async function handler(request: Request) {
+    if (request.method !== 'POST') {
+        return jsonResponse({success: false, error: 'Method not allowed'}, 405);
+    }
+
+    const squareConfig = getSquareConfig();
+    const brevoApiKey = process.env.BREVO_API_KEY;
+    if (!squareConfig || !isCardAccessConfigured() || !brevoApiKey || !isOrderStoreConfigured()) {
+        logEvent('configuration_error', {error: 'Saved cards need Square, CARD_ACCESS_SECRET, BREVO_API_KEY and the order store'});
+        return jsonResponse({success: false, error: 'Saved cards are not available'}, 503);
+    }
+    const square = createSquareClient(squareConfig);
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch (error) {
+        return jsonResponse({success: false, error: 'Invalid JSON'}, 400);
+    }
+
+    const parsed = requestSchema.safeParse(body);
+    if (!parsed.success) {
+        return jsonResponse({success: false, error: 'Invalid request'}, 400);
+    }
+    const input = parsed.data;
+
+    try {
+        switch (input.action) {
+            case 'request_code': {
+                // The response is the same whether or not the email has saved cards
+                const emailChallenge = await createEmailChallenge(input.email);
+                if (!emailChallenge) {
+                    logEvent('card_access_rate_limited', { action: input.action });
+                    return jsonResponse({success: false, code: 'TOO_MANY_ATTEMPTS', error: 'Too many codes requested. Please try again later.'}, 429);
+                }
+                const { code, challenge } = emailChallenge;
+                const sent = await sendCardAccessCodeToBrevo(input.email, code, brevoApiKey);
+                if (!sent) {
+                    logEvent('card_access_code_error', {});
+                    return jsonResponse({success: false, error: 'We could not send the code. Please try again.'}, 502);
+                }
+                logEvent('card_access_code_sent', {});
+                return jsonResponse({success: true, challenge}, 200);
+            }
+
+            case 'verify': {
+                const result = await redeemEmailChallenge(input.email, input.code, input.challenge);
+                if ('error' in result) {
+                    logEvent('card_access_code_rejected', { reason: result.error });
+                    return result.error === 'TOO_MANY_ATTEMPTS'
+                        ? jsonResponse({success: false, code: result.error, error: 'Too many incorrect codes. Please request a new code later.'}, 429)
+                        : jsonResponse({success: false, code: result.error, error: 'That code is incorrect or has expired'}, 401);
+                }
+                const { cardAccessToken } = result;
+                const cards = await listSavedCards(input.email, square);
+                logEvent('saved_cards_listed', { count: cards.length });
+                return jsonResponse({success: true, cardAccessToken, cards}, 200);
+            }
+
+            case 'list': {
+                const email = await readCardAccessToken(input.cardAccessToken);
+                if (!email) {
+                    return jsonResponse({success: false, code: 'INVALID_CODE', error: 'Please verify your email again'}, 401);
+                }
+                return jsonResponse({success: true, cards: await listSavedCards(email, square)}, 200);
+            }
+        }
+    } catch (error) {
+        logEvent('saved_cards_error', { action: input.action, error: error.message });
+        return jsonResponse({success: false, error: 'Saved cards are not available right now'}, 500);
+    }
+}
@@ -0,0 +1,300 @@
+import { findGiftCardBySquareIds } from './_lib/giftCards.js';
+import { getOrderRepository, type SquareOrderReferences } from './_lib/orderRepository.js';
+import { findOrderBySquareIds, updateOrderFields, type AirtableRecord, type OrderStatus } from './_lib/orders.js';
+import { createSquareClient, getSquareConfig, type SquarePayment, type SquareRefund } from './_lib/square.js';
+
+export const config = {
+    runtime: 'edge',
+};
+
+// Helper function for structured logging
+function logEvent(event: string, data: Record<string, unknown>) {
+    console.log(JSON.stringify({
+        timestamp: new Date().toISOString(),
+        event,
+        ...data
+    }));
+}
+
+function jsonResponse(body: unknown, status: number) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: {'Content-Type': 'application/json'}
+    });
+}
+
+interface SquareWebhookEvent {
+    merchant_id: string;
+    type: string;
+    event_id: string;
+    created_at: string;
+    data: {
+        type: string;
+        id: string;
+        object: {
+            payment?: SquarePayment;
+            refund?: SquareRefund;
+            order_updated?: { order_id: string; state: string; version?: number };
+        };
+    };
+}
+
+// Orders already shipped to the customer - canceling them needs a manual follow-up
+const FULFILLMENT_STATUSES: OrderStatus[] = ['Shipped', 'Delivered'];
+
+// Payments that went through, so an order is recorded for them
+const PAID_PAYMENT_STATUSES = ['APPROVED', 'COMPLETED'];
+
+// The outbox retries recording a paid order for about 8.5 hours (see
+// _lib/outbox.ts); until then Square is asked to deliver the event again
+const ORDER_RECORD_WAIT_MS = 12 * 60 * 60 * 1000;
+
+// Square signs the notification URL followed by the raw body with HMAC-SHA256
+async function verifySquareSignature(
+    body: string,
+    signature: string | null,
+    signatureKey: string,
+    notificationUrl: string
+): Promise<boolean> {
+    if (!signature) {
+        return false;
+    }
+
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+        'raw',
+        encoder.encode(signatureKey),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+    );
+    const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(notificationUrl + body));
+    const expected = btoa(String.fromCharCode(...new Uint8Array(digest)));
+
+    // Constant-time comparison
+    if (expected.length !== signature.length) {
+        return false;
+    }
+    let mismatch = 0;
+    for (let i = 0; i < expected.length; i++) {
+        mismatch |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+    }
+    return mismatch === 0;
+}
+
+async function hasProcessedEvent(eventId: string): Promise<boolean> {
+    return !!await getOrderRepository().findWebhookEvent(eventId);
+}
+
+async function recordProcessedEvent(event: SquareWebhookEvent, outcome: string): Promise<void> {
+    await getOrderRepository().createWebhookEvent({
+        'Event ID': event.event_id,
+        'Type': event.type,
+        'Outcome': outcome,
+        'Processed At': new Date().toISOString()
+    });
+}
+
+async function fetchSquarePayment(paymentId: string): Promise<SquarePayment> {
+    const squareConfig = getSquareConfig();
+    if (!squareConfig) {
+        throw new Error('Square configuration incomplete');
+    }
+    return createSquareClient(squareConfig).payments.get(paymentId);
+}
+
+// Orders are also found by their Square order ID, which earlier failed or
+// canceled payment attempts share; only the payments recorded on the order count
+function isOrderPayment(order: AirtableRecord, paymentId: string | undefined): boolean {
+    return !!paymentId && (order.fields['Square Payment ID'] === paymentId || order.fields['Gift Card Payment ID'] === paymentId);
+}
+
+// No order matches the event. Gift card purchases are recorded in the Gift Cards
+// table instead, and declined, failed or canceled payments never get an order,
+// so only a recent event for a payment that went through is worth waiting for.
+async function handleMissingOrder(event: SquareWebhookEvent, ids: SquareOrderReferences, paid: boolean): Promise<string> {
+    let outcome: string;
+    if (await findGiftCardBySquareIds(ids)) {
+        outcome = 'gift_card_purchase';
+    } else if (paid && Date.now() - Date.parse(event.created_at) < ORDER_RECORD_WAIT_MS) {
+        return 'order_not_found';
+    } else {
+        outcome = 'no_order';
+    }
+    logEvent('webhook_ignored', { eventId: event.event_id, type: event.type, outcome, ...ids });
+    return outcome;
+}
+
+// Work out the order fields implied by the current state of a Square payment.
+// Amounts are absolute values taken from Square, so replays produce the same update.
+function getPaymentUpdate(order: AirtableRecord, payment: SquarePayment): Record<string, unknown> {
+    const currentStatus = order.fields['Status'] as OrderStatus;
+    const fields: Record<string, unknown> = {};
+
+    if (payment.status === 'COMPLETED' && currentStatus === 'Pending') {
+        fields['Status'] = 'Processing';
+    } else if (payment.status === 'CANCELED' || payment.status === 'FAILED') {
+        fields['Status'] = 'Canceled';
+    }
+
+    const refundedCents = payment.refunded_money?.amount || 0;
+    if (refundedCents > 0) {
+        fields['Refunded Amount'] = refundedCents / 100;
+
+        const totalCents = payment.total_money?.amount ?? payment.amount_money?.amount;
+        if (totalCents && refundedCents >= totalCents) {
+            fields['Status'] = 'Canceled';
+        }
+    }
+
+    return fields;
+}
+
+async function handlePaymentUpdated(event: SquareWebhookEvent): Promise<string> {
+    const payment = event.data.object.payment;
+    const ids = { paymentId: payment?.id, orderId: payment?.order_id };
+    const order = await findOrderBySquareIds(ids);
+    if (!order) {
+        return handleMissingOrder(event, ids, PAID_PAYMENT_STATUSES.includes(payment?.status));
+    }
+    if (!isOrderPayment(order, payment?.id)) {
+        return 'other_payment';
+    }
+
+    const fields = getPaymentUpdate(order, payment);
+    if (Object.keys(fields).length === 0) {
+        return 'no_change';
+    }
+
+    await updateOrderFields(order.id, fields);
+    logEvent('webhook_order_updated', { orderRecordId: order.id, fields });
+    return 'updated';
+}
+
+async function handleRefund(event: SquareWebhookEvent): Promise<string> {
+    const refund = event.data.object.refund;
+    if (refund?.status !== 'COMPLETED') {
+        return 'refund_not_completed';
+    }
+
+    // Only a payment that went through can be refunded
+    const ids = { paymentId: refund.payment_id, orderId: refund.order_id };
+    const order = await findOrderBySquareIds(ids);
+    if (!order) {
+        return handleMissingOrder(event, ids, true);
+    }
+    if (!isOrderPayment(order, refund.payment_id)) {
+        return 'other_payment';
+    }
+
+    // Re-read the payment so the refunded total covers every refund, not just this one
+    const payment = await fetchSquarePayment(refund.payment_id);
+    const fields = getPaymentUpdate(order, payment);
+    if (refund.reason) {
+        fields['Refund Reason'] = refund.reason;
+    }
+
+    await updateOrderFields(order.id, fields);
+    logEvent('webhook_refund_recorded', { orderRecordId: order.id, refundId: refund.id, fields });
+    return 'updated';
+}
+
+async function handleOrderUpdated(event: SquareWebhookEvent): Promise<string> {
+    const orderUpdated = event.data.object.order_updated;
+    if (orderUpdated?.state !== 'CANCELED') {
+        return 'no_change';
+    }
+
+    // Square orders are only canceled before they are paid
+    const ids = { orderId: orderUpdated.order_id };
+    const order = await findOrderBySquareIds(ids);
+    if (!order) {
+        return handleMissingOrder(event, ids, false);
+    }
+    if (order.fields['Status'] === 'Canceled') {
+        return 'no_change';
+    }
+    if (FULFILLMENT_STATUSES.includes(order.fields['Status'] as OrderStatus)) {
+        logEvent('webhook_cancel_after_fulfillment', { orderRecordId: order.id, status: order.fields['Status'] });
+    }
+
+    await updateOrderFields(order.id, { 'Status': 'Canceled' });
+    logEvent('webhook_order_canceled', { orderRecordId: order.id });
+    return 'updated';
+}
+
+export default async function handler(request: Request) {
+    if (request.method !== 'POST') {
+        return jsonResponse({success: false, error: 'Method not allowed'}, 405);
+    }
+
+    const signatureKey = process.env.SQUARE_WEBHOOK_SIGNATURE_KEY;
+    if (!signatureKey) {
+        logEvent('configuration_error', {error: 'Square webhook signature key not configured'});
+        return jsonResponse({success: false, error: 'Webhook not configured'}, 500);
+    }
+
+    // The URL must match the one registered with Square exactly
+    const notificationUrl = process.env.SQUARE_WEBHOOK_URL || request.url;
+    const rawBody = await request.text();
+    const signature = request.headers.get('x-square-hmacsha256-signature');
+
+    if (!await verifySquareSignature(rawBody, signature, signatureKey, notificationUrl)) {
+        logEvent('webhook_signature_invalid', { hasSignature: !!signature });
+        return jsonResponse({success: false, error: 'Invalid signature'}, 401);
+    }
+
+    let event: SquareWebhookEvent;
+    try {
+        event = JSON.parse(rawBody);
+    } catch (error) {
+        return jsonResponse({success: false, error: 'Invalid JSON'}, 400);
+    }
+
+    logEvent('webhook_received', { eventId: event.event_id, type: event.type });
+
+    try {
+        if (await hasProcessedEvent(event.event_id)) {
+            logEvent('webhook_duplicate', { eventId: event.event_id });
+            return jsonResponse({success: true, duplicate: true}, 200);
+        }
+
+        let outcome: string;
+        switch (event.type) {
+            case 'payment.updated':
+                outcome = await handlePaymentUpdated(event);
+                break;
+            case 'refund.created':
+            case 'refund.updated':
+                outcome = await handleRefund(event);
+                break;
+            case 'order.updated':
+                outcome = await handleOrderUpdated(event);
+                break;
+            default:
+                outcome = 'ignored';
+        }
+
+        // The order for a recent payment may not be recorded yet (see _lib/outbox.ts);
+        // leave the event unprocessed and answer non-2xx so Square delivers it again later
+        if (outcome === 'order_not_found') {
+            logEvent('webhook_order_not_found', { eventId: event.event_id, type: event.type });
+            return jsonResponse({success: false, outcome, error: 'Order not found'}, 503);
+        }
+
+        await recordProcessedEvent(event, outcome);
+        logEvent('webhook_processed', { eventId: event.event_id, type: event.type, outcome });
+
+        return jsonResponse({success: true, outcome}, 200);
+
+    } catch (error) {
+        logEvent('webhook_error', {
+            eventId: event.event_id,
+            type: event.type,
+            error: error.message
+        });
+
+        // A non-2xx response makes Square retry the delivery later
+        return jsonResponse({success: false, error: 'Webhook processing failed'}, 500);
+    }
+}
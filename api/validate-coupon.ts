@@ -0,0 +1,74 @@
+import { calculateOrderPricing, parsePricingInput, type PricingInput } from '../src/utils/pricing.js';
+import { validatePromotion } from './_lib/promotions.js';
+
+export const config = {
+    runtime: 'edge',
+};
+
+// Helper function for structured logging
+function logEvent(event: string, data: Record<string, unknown>) {
+    console.log(JSON.stringify({
+        timestamp: new Date().toISOString(),
+        event,
+        ...data
+    }));
+}
+
+function jsonResponse(body: unknown, status: number) {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: {'Content-Type': 'application/json'}
+    });
+}
+
+export default async function handler(request: Request) {
+    if (request.method !== 'POST') {
+        return jsonResponse({success: false, error: 'Method not allowed'}, 405);
+    }
+
+    try {
+        const body = await request.json();
+        const { code, email, orderDetails } = body;
+
+        if (!code || typeof code !== 'string' || !orderDetails) {
+            return jsonResponse({success: false, error: 'Missing required fields'}, 400);
+        }
+
+        let pricingInput: PricingInput;
+        try {
+            pricingInput = parsePricingInput(orderDetails);
+            calculateOrderPricing(pricingInput);
+        } catch (error) {
+            return jsonResponse({success: false, error: 'Invalid order selection'}, 400);
+        }
+
+        const result = await validatePromotion(code, {
+            email: typeof email === 'string' && email.trim() ? email : undefined,
+            pricingInput
+        });
+
+        logEvent('coupon_validated', {
+            code: code.trim().toUpperCase(),
+            valid: result.valid,
+            reason: result.valid ? undefined : result.code
+        });
+
+        if (!result.valid) {
+            return jsonResponse({success: false, code: result.code, error: result.error}, 422);
+        }
+
+        return jsonResponse({
+            success: true,
+            discount: result.discount,
+            description: result.promotion.description,
+            pricing: calculateOrderPricing(pricingInput, result.discount)
+        }, 200);
+
+    } catch (error) {
+        logEvent('coupon_validation_error', {
+            error: error.message
+        });
+
+        return jsonResponse({success: false, error: 'Unable to validate coupon'}, 500);
+    }
+}
@@ -0,0 +1,54 @@
+// Checks the Airtable base against the tables and fields the API expects,
+// through a running /api/airtable-schema.
+//
+//   ADMIN_API_TOKEN=... node scripts/airtable-schema.mjs [url]           report what is missing or mistyped
+//   ADMIN_API_TOKEN=... node scripts/airtable-schema.mjs --apply [url]   create missing tables and fields first
+//
+// Exits with status 1 while anything is left to fix.
+const DEFAULT_URL = 'http://localhost:3000/api/airtable-schema';
+
+const args = process.argv.slice(2);
+const shouldApply = args.includes('--apply');
+const url = args.find(arg => !arg.startsWith('--')) || DEFAULT_URL;
+
+const token = process.env.ADMIN_API_TOKEN;
+if (!token) {
+  console.error('Set ADMIN_API_TOKEN to the token the API was started with');
+  process.exit(1);
+}
+
+const PROBLEMS = {
+  missing_table: issue => `table missing (expected "${issue.expected}")`,
+  missing_field: issue => `missing field "${issue.field}" (${issue.expected})`,
+  wrong_type: issue => `field "${issue.field}" is ${issue.actual}, expected ${issue.expected}`,
+  wrong_link: issue => `field "${issue.field}" links to ${issue.actual}, expected ${issue.expected}`,
+  missing_choices: issue => `field "${issue.field}" is missing options: ${issue.expected}`
+};
+
+const response = await fetch(url, {
+  method: shouldApply ? 'POST' : 'GET',
+  headers: { 'Authorization': `Bearer ${token}` }
+});
+const result = await response.json().catch(() => ({}));
+if (!response.ok || !result.success) {
+  console.error(`${response.status} ${result.error || 'Schema check failed'}`);
+  process.exit(1);
+}
+
+for (const change of result.changes) {
+  if (change.field) {
+    console.log(`created ${change.table}: field "${change.field}"`);
+  } else {
+    console.log(`created ${change.table}: table ${change.tableId} (update TABLES.${change.table} in src/utils/airtableConfig.ts if it holds a table ID)`);
+  }
+}
+
+for (const issue of result.issues) {
+  const hint = issue.fixable ? ' [--apply creates it]' : ' [fix in Airtable]';
+  console.log(`${issue.table}: ${PROBLEMS[issue.problem]?.(issue) || issue.problem}${hint}`);
+}
+
+if (result.issues.length === 0) {
+  console.log('Airtable schema OK');
+}
+process.exit(result.issues.length === 0 ? 0 : 1);
@@ -0,0 +1,18 @@
+// Loads the TypeScript modules in api/ into this Node.js process, the way
+// Vercel bundles them, for the local API and the offline checks.
+import { createServer } from 'vite';
+
+export async function createApiModuleLoader() {
+  const vite = await createServer({
+    configFile: false,
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+    appType: 'custom',
+    optimizeDeps: { noDiscovery: true }
+  });
+  return {
+    // e.g. load('api/refunds.ts')
+    load: path => vite.ssrLoadModule(`/${path}`),
+    close: () => vite.close()
+  };
+}
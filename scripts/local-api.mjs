@@ -0,0 +1,60 @@
+// Runs the API routes in api/ on Node.js, in one process, for working without
+// Airtable (ORDER_STORE=local). Every route shares the one local order store,
+// which is saved to ORDER_STORE_FILE when set. Edge functions can't do this:
+// each gets its own empty store and none can write files.
+//
+//   node --env-file=.env scripts/local-api.mjs [port]
+//
+// Routes are served at /api/<name>, like on Vercel. Run the site with
+// VITE_API_PROXY=http://localhost:3000 so `npm run dev` sends /api requests here.
+import { createServer } from 'node:http';
+import { existsSync } from 'node:fs';
+import { createApiModuleLoader } from './api-modules.mjs';
+
+const DEFAULT_PORT = 3000;
+
+const port = Number(process.argv[2]) || DEFAULT_PORT;
+
+process.env.ORDER_STORE = process.env.ORDER_STORE || 'local';
+
+const modules = await createApiModuleLoader();
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+  return chunks.length > 0 ? Buffer.concat(chunks) : undefined;
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const route = url.pathname.match(/^\/api\/([\w-]+)\/?$/)?.[1];
+  const file = route && `api/${route}.ts`;
+  if (!file || !existsSync(file)) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: false, error: 'Not found' }));
+    return;
+  }
+
+  try {
+    const { default: handler } = await modules.load(file);
+    const body = req.method === 'GET' || req.method === 'HEAD' ? undefined : await readBody(req);
+    const response = await handler(new Request(url, {
+      method: req.method,
+      headers: Object.entries(req.headers).map(([name, value]) => [name, String(value)]),
+      body
+    }));
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(Buffer.from(await response.arrayBuffer()));
+  } catch (error) {
+    console.error(`${req.method} ${url.pathname}`, error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: false, error: error.message }));
+  }
+});
+
+server.listen(port, () => {
+  const store = process.env.ORDER_STORE_FILE ? ` saved to ${process.env.ORDER_STORE_FILE}` : ' in memory';
+  console.log(`API on http://localhost:${port}/api (ORDER_STORE=${process.env.ORDER_STORE}${store})`);
+});
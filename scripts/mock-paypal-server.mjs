@@ -0,0 +1,142 @@
+// Local stand-in for the PayPal Orders v2 API and JS SDK, for testing the PayPal checkout offline.
+//
+//   node scripts/mock-paypal-server.mjs [port]            approve and capture every order
+//   node scripts/mock-paypal-server.mjs --decline [port]  fail every capture with INSTRUMENT_DECLINED
+//
+// Run the API with PAYPAL_API_URL=http://localhost:4010 (any PAYPAL_CLIENT_ID/SECRET)
+// and the site with VITE_PAYPAL_SDK_URL=http://localhost:4010/sdk/js. The fake
+// PayPal button creates the order and approves it immediately when clicked.
+import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const DEFAULT_PORT = 4010;
+
+const args = process.argv.slice(2);
+const shouldDecline = args.includes('--decline');
+const port = Number(args.find(arg => !arg.startsWith('--'))) || DEFAULT_PORT;
+
+const orders = new Map();
+// PayPal-Request-Id -> response body, so retried requests get the original result
+const replies = new Map();
+
+const SDK_SCRIPT = `
+window.paypal = {
+  Buttons(options) {
+    return {
+      async render(selector) {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.textContent = 'PayPal (mock)';
+        button.style.cssText = 'width:100%;height:48px;background:#ffc439;border-radius:4px;font-weight:600';
+        button.onclick = async () => {
+          try {
+            const orderID = await options.createOrder();
+            await options.onApprove({ orderID });
+          } catch (error) {
+            options.onError && options.onError(error);
+          }
+        };
+        document.querySelector(selector).replaceChildren(button);
+      },
+      async close() {}
+    };
+  }
+};
+`;
+
+function send(response, status, body, contentType = 'application/json') {
+  response.writeHead(status, {
+    'Content-Type': contentType,
+    'Access-Control-Allow-Origin': '*'
+  });
+  response.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+function issue(response, status, name, issueCode, description) {
+  send(response, status, { name, message: description, details: [{ issue: issueCode, description }] });
+}
+
+async function readJson(request) {
+  let body = '';
+  for await (const chunk of request) body += chunk;
+  return body ? JSON.parse(body) : {};
+}
+
+function createOrder(body) {
+  const id = randomUUID().replace(/-/g, '').slice(0, 17).toUpperCase();
+  const order = {
+    id,
+    status: 'APPROVED', // The mock buyer approves straight away
+    intent: body.intent,
+    purchase_units: body.purchase_units.map(unit => ({ ...unit, payments: {} })),
+    payer: { email_address: 'buyer@example.com' }
+  };
+  orders.set(id, order);
+  console.log(`created ${id} for ${order.purchase_units[0].amount.value} (${order.purchase_units[0].custom_id})`);
+  return order;
+}
+
+function captureOrder(order) {
+  order.status = 'COMPLETED';
+  order.purchase_units[0].payments = {
+    captures: [{
+      id: randomUUID().replace(/-/g, '').slice(0, 17).toUpperCase(),
+      status: 'COMPLETED',
+      amount: order.purchase_units[0].amount
+    }]
+  };
+  console.log(`captured ${order.id}`);
+  return order;
+}
+
+const server = createServer(async (request, response) => {
+  const { pathname } = new URL(request.url, `http://localhost:${port}`);
+  const requestId = request.headers['paypal-request-id'];
+
+  if (request.method === 'GET' && pathname === '/sdk/js') {
+    return send(response, 200, SDK_SCRIPT, 'application/javascript');
+  }
+
+  if (request.method === 'POST' && pathname === '/v1/oauth2/token') {
+    return send(response, 200, { access_token: 'mock-access-token', token_type: 'Bearer', expires_in: 32400 });
+  }
+
+  if (requestId && replies.has(requestId)) {
+    return send(response, 200, replies.get(requestId));
+  }
+
+  if (request.method === 'POST' && pathname === '/v2/checkout/orders') {
+    const order = createOrder(await readJson(request));
+    if (requestId) replies.set(requestId, order);
+    return send(response, 201, order);
+  }
+
+  const match = pathname.match(/^\/v2\/checkout\/orders\/([^/]+)(\/capture)?$/);
+  const order = match && orders.get(match[1]);
+  if (!order) {
+    return issue(response, 404, 'RESOURCE_NOT_FOUND', 'INVALID_RESOURCE_ID', 'Specified resource ID does not exist.');
+  }
+
+  if (request.method === 'GET' && !match[2]) {
+    return send(response, 200, order);
+  }
+
+  if (request.method === 'POST' && match[2]) {
+    if (order.status === 'COMPLETED') {
+      return issue(response, 422, 'UNPROCESSABLE_ENTITY', 'ORDER_ALREADY_CAPTURED', 'Order already captured.');
+    }
+    if (shouldDecline) {
+      console.log(`declined ${order.id}`);
+      return issue(response, 422, 'UNPROCESSABLE_ENTITY', 'INSTRUMENT_DECLINED', 'The instrument presented was declined.');
+    }
+    const captured = captureOrder(order);
+    if (requestId) replies.set(requestId, captured);
+    return send(response, 201, captured);
+  }
+
+  send(response, 405, { name: 'METHOD_NOT_SUPPORTED' });
+});
+
+server.listen(port, () => {
+  console.log(`mock PayPal listening on http://localhost:${port}${shouldDecline ? ' (declining captures)' : ''}`);
+});
@@ -0,0 +1,53 @@
+// Lists order side effects that failed for good, through a running /api/outbox,
+// and puts them back in the queue for /api/process-outbox.
+//
+//   ADMIN_API_TOKEN=... node scripts/outbox.mjs [url]                      list failed jobs
+//   ADMIN_API_TOKEN=... node scripts/outbox.mjs --status=Pending [url]     list jobs with another status
+//   ADMIN_API_TOKEN=... node scripts/outbox.mjs --retry=rec... [url]       retry one job
+//   ADMIN_API_TOKEN=... node scripts/outbox.mjs --retry-all [url]          retry every failed job
+//
+// Exits with status 1 while failed jobs are left.
+const DEFAULT_URL = 'http://localhost:3000/api/outbox';
+
+const args = process.argv.slice(2);
+const option = name => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1];
+const status = option('status') || 'Failed';
+const retryAll = args.includes('--retry-all');
+const retryId = option('retry');
+const url = args.find(arg => !arg.startsWith('--')) || DEFAULT_URL;
+
+const token = process.env.ADMIN_API_TOKEN;
+if (!token) {
+  console.error('Set ADMIN_API_TOKEN to the token the API was started with');
+  process.exit(1);
+}
+
+async function call(method, path, body) {
+  const response = await fetch(`${url}${path}`, {
+    method,
+    headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    console.error(`${response.status} ${result.error || 'Outbox request failed'}`);
+    process.exit(1);
+  }
+  return result;
+}
+
+const { jobs } = await call('GET', `?status=${encodeURIComponent(status)}`);
+
+for (const job of jobs) {
+  console.log(`${job.recordId}  ${job.jobId}  ${job.attempts} attempts  ${job.lastError || ''}`);
+}
+
+if (!retryAll && !retryId) {
+  console.log(`${jobs.length} ${status.toLowerCase()} job(s)`);
+  process.exit(status === 'Failed' && jobs.length > 0 ? 1 : 0);
+}
+
+for (const recordId of retryAll ? jobs.map(job => job.recordId) : [retryId]) {
+  await call('POST', '', { recordId });
+  console.log(`requeued ${recordId}`);
+}
@@ -0,0 +1,153 @@
+// Checks /api/refunds offline against a stand-in for Square that, like Square,
+// answers a repeated idempotency key with the refund it already made.
+//
+//   node scripts/replay-refunds.mjs
+//
+// Refunds part of an order, retries that request with the same requestId as if
+// its response had been lost, then refunds the rest. The retry must come back
+// as replayed, without changing the order's Refunded Amount or Status and
+// without emailing the customer again. Exits with status 1 when anything doesn't
+// match.
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createApiModuleLoader } from './api-modules.mjs';
+
+const ADMIN_TOKEN = 'offline-admin-token';
+const OFFLINE_SQUARE_URL = 'https://square.offline';
+const BREVO_URL = 'https://api.brevo.com/v3/smtp/email';
+
+const store = {
+  nextId: 3,
+  tables: {
+    CUSTOMERS: [
+      { id: 'rec00000000000001', fields: { Name: 'Test Customer', Email: 'customer@example.com' } }
+    ],
+    ORDERS: [
+      {
+        id: 'rec00000000000002',
+        fields: {
+          'Order Number': 'HB13405-6',
+          'Order Date': '2026-01-15',
+          Status: 'Processing',
+          'Total Amount': 100,
+          Customer: ['rec00000000000001'],
+          'Square Payment ID': 'PAYMENT_TEST_1'
+        }
+      }
+    ]
+  }
+};
+const payment = {
+  id: 'PAYMENT_TEST_1',
+  status: 'COMPLETED',
+  amount_money: { amount: 10000, currency: 'USD' },
+  total_money: { amount: 10000, currency: 'USD' }
+};
+
+const storeFile = join(mkdtempSync(join(tmpdir(), 'refunds-')), 'store.json');
+writeFileSync(storeFile, JSON.stringify(store));
+
+Object.assign(process.env, {
+  ADMIN_API_TOKEN: ADMIN_TOKEN,
+  BREVO_API_KEY: 'offline',
+  SQUARE_ACCESS_TOKEN: 'offline',
+  SQUARE_LOCATION_ID: 'offline',
+  SQUARE_API_URL: OFFLINE_SQUARE_URL
+});
+
+const refundsByKey = new Map();
+const notices = [];
+
+function json(body) {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+}
+
+globalThis.fetch = async (requestUrl, init = {}) => {
+  const target = String(requestUrl);
+  if (target === BREVO_URL) {
+    notices.push(JSON.parse(init.body));
+    return json({ messageId: `notice-${notices.length}` });
+  }
+  if (target === `${OFFLINE_SQUARE_URL}/v2/payments/${payment.id}`) {
+    return json({ payment });
+  }
+  if (target === `${OFFLINE_SQUARE_URL}/v2/refunds`) {
+    const request = JSON.parse(init.body);
+    if (!refundsByKey.has(request.idempotency_key)) {
+      const refund = {
+        id: `REFUND_TEST_${refundsByKey.size + 1}`,
+        payment_id: request.payment_id,
+        status: 'COMPLETED',
+        amount_money: request.amount_money
+      };
+      refundsByKey.set(request.idempotency_key, refund);
+      payment.refund_ids = [...(payment.refund_ids || []), refund.id];
+      payment.refunded_money = {
+        amount: (payment.refunded_money?.amount || 0) + refund.amount_money.amount,
+        currency: 'USD'
+      };
+    }
+    return json({ refund: refundsByKey.get(request.idempotency_key) });
+  }
+  throw new Error(`Offline refunds check has no response for ${target}`);
+};
+
+const modules = await createApiModuleLoader();
+const { configureOrderRepository } = await modules.load('api/_lib/orderRepository.ts');
+const { createLocalOrderRepository } = await modules.load('api/_lib/localOrderRepository.ts');
+configureOrderRepository(createLocalOrderRepository({ file: storeFile }));
+const { default: handler } = await modules.load('api/refunds.ts');
+
+async function refund(body) {
+  const response = await handler(new Request('http://localhost/api/refunds', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${ADMIN_TOKEN}` },
+    body: JSON.stringify(body)
+  }));
+  const result = await response.json();
+  console.log(`${response.status} ${JSON.stringify(result)}`);
+  return result;
+}
+
+function order() {
+  return JSON.parse(readFileSync(storeFile, 'utf8')).tables.ORDERS[0].fields;
+}
+
+let failures = 0;
+function check(description, actual, expected) {
+  const matches = actual === expected;
+  console.log(`  ${matches ? 'ok' : 'FAILED'}: ${description} (${actual}${matches ? '' : `, expected ${expected}`})`);
+  if (!matches) {
+    failures++;
+  }
+}
+
+const partial = { orderNumber: 'hb13405-6', amount: 25, reason: 'Damaged USB drive', requestId: crypto.randomUUID() };
+
+console.log('partial refund');
+let result = await refund(partial);
+check('refunded amount', result.refundedAmount, 25);
+check('order Refunded Amount', order()['Refunded Amount'], 25);
+check('order Status', order().Status, 'Processing');
+check('notices sent', notices.length, 1);
+
+console.log('same partial refund, retried');
+result = await refund(partial);
+check('refund replayed', result.refunds?.[0]?.replayed, true);
+check('refunded amount', result.refundedAmount, 0);
+check('total refunded', result.totalRefunded, 25);
+check('order Refunded Amount', order()['Refunded Amount'], 25);
+check('order Status', order().Status, 'Processing');
+check('notices sent', notices.length, 1);
+
+console.log('rest of the order');
+result = await refund({ orderNumber: 'HB13405-6', reason: 'Order canceled', requestId: crypto.randomUUID() });
+check('refunded amount', result.refundedAmount, 75);
+check('order Refunded Amount', order()['Refunded Amount'], 100);
+check('order Status', order().Status, 'Canceled');
+check('notices sent', notices.length, 2);
+
+await modules.close();
+console.log(failures ? `${failures} check(s) failed` : 'all checks passed');
+process.exit(failures ? 1 : 0);
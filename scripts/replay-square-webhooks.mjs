@@ -0,0 +1,134 @@
+// Replays the signed Square webhook fixtures against /api/square-webhook.
+//
+//   node scripts/replay-square-webhooks.mjs               run them offline and check each response
+//   node scripts/replay-square-webhooks.mjs <url>         send them to a running API instead
+//   node scripts/replay-square-webhooks.mjs --sign [url]  re-sign the fixtures after editing them
+//
+// Every fixture is sent twice; a processed event must come back as a duplicate.
+//
+// Offline, the route is loaded in this process with a local order store holding
+// the orders and gift cards in fixtures/square-webhook/seed.json, Square API calls
+// are answered with the payments listed there and the clock reads its "now";
+// nothing leaves the machine. Exits
+// with status 1 when a response doesn't match the fixture's "expected" status
+// and outcome.
+//
+// The fixtures are signed with the test key below for the given notification URL,
+// so run an API given as <url> with SQUARE_WEBHOOK_SIGNATURE_KEY and
+// SQUARE_WEBHOOK_URL set to match.
+import { createHmac } from 'node:crypto';
+import { mkdtempSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createApiModuleLoader } from './api-modules.mjs';
+
+const TEST_SIGNATURE_KEY = 'heritagebox-test-signature-key';
+const DEFAULT_URL = 'http://localhost:3000/api/square-webhook';
+const OFFLINE_SQUARE_URL = 'https://square.offline';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'square-webhook');
+const args = process.argv.slice(2);
+const shouldSign = args.includes('--sign');
+const targetUrl = args.find(arg => !arg.startsWith('--'));
+const url = targetUrl || DEFAULT_URL;
+
+function sign(body) {
+  return createHmac('sha256', TEST_SIGNATURE_KEY).update(url + body).digest('base64');
+}
+
+// Loads the route with a seeded local order store and a stand-in for the Square API
+async function loadOfflineHandler() {
+  const seed = JSON.parse(readFileSync(join(fixturesDir, 'seed.json'), 'utf8'));
+  const storeFile = join(mkdtempSync(join(tmpdir(), 'square-webhooks-')), 'store.json');
+  writeFileSync(storeFile, JSON.stringify(seed.store));
+
+  Object.assign(process.env, {
+    SQUARE_WEBHOOK_SIGNATURE_KEY: TEST_SIGNATURE_KEY,
+    SQUARE_WEBHOOK_URL: url,
+    SQUARE_ACCESS_TOKEN: 'offline',
+    SQUARE_LOCATION_ID: 'offline',
+    SQUARE_API_URL: OFFLINE_SQUARE_URL
+  });
+
+  globalThis.fetch = async requestUrl => {
+    const paymentId = String(requestUrl).match(/\/v2\/payments\/([^/?]+)$/)?.[1];
+    const payment = String(requestUrl).startsWith(OFFLINE_SQUARE_URL) && seed.squarePayments[paymentId];
+    if (!payment) {
+      throw new Error(`Offline replay has no response for ${requestUrl}`);
+    }
+    return new Response(JSON.stringify({ payment }), { headers: { 'Content-Type': 'application/json' } });
+  };
+
+  const modules = await createApiModuleLoader();
+  const { configureOrderRepository } = await modules.load('api/_lib/orderRepository.ts');
+  const { createLocalOrderRepository } = await modules.load('api/_lib/localOrderRepository.ts');
+  configureOrderRepository(createLocalOrderRepository({ file: storeFile }));
+  const { default: handler } = await modules.load('api/square-webhook.ts');
+
+  // Fixture events are only as recent as the seed says
+  const now = Date.parse(seed.now);
+  Date.now = () => now;
+
+  return {
+    send: request => handler(request),
+    orders: () => JSON.parse(readFileSync(storeFile, 'utf8')).tables.ORDERS,
+    close: () => modules.close()
+  };
+}
+
+const files = readdirSync(fixturesDir).filter(file => /^\d+-.*\.json$/.test(file)).sort();
+
+if (shouldSign) {
+  for (const file of files) {
+    const path = join(fixturesDir, file);
+    const fixture = JSON.parse(readFileSync(path, 'utf8'));
+    fixture.signature = fixture.tamperSignature ? 'invalid-signature' : sign(JSON.stringify(fixture.body));
+    writeFileSync(path, JSON.stringify(fixture, null, 2) + '\n');
+    console.log(`signed ${file}`);
+  }
+  process.exit(0);
+}
+
+const offline = targetUrl ? null : await loadOfflineHandler();
+const send = offline ? offline.send : request => fetch(request);
+let mismatches = 0;
+
+for (const file of files) {
+  const fixture = JSON.parse(readFileSync(join(fixturesDir, file), 'utf8'));
+  const { status, outcome } = fixture.expected;
+
+  for (const attempt of ['first', 'replay']) {
+    const response = await send(new Request(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-square-hmacsha256-signature': fixture.signature
+      },
+      body: JSON.stringify(fixture.body)
+    }));
+    const text = await response.text();
+    console.log(`${file} (${attempt}): ${response.status} ${text}`);
+
+    if (offline) {
+      const result = JSON.parse(text);
+      const matches = attempt === 'replay' && status === 200
+        ? response.status === 200 && result.duplicate === true
+        : response.status === status && (!outcome || result.outcome === outcome);
+      if (!matches) {
+        mismatches++;
+        console.error(`  expected ${attempt === 'replay' && status === 200 ? '200 duplicate' : `${status} ${outcome || ''}`}`);
+      }
+    }
+  }
+}
+
+if (offline) {
+  for (const order of offline.orders()) {
+    const { 'Order Number': orderNumber, Status: status, 'Refunded Amount': refunded } = order.fields;
+    console.log(`${orderNumber}: ${status}${refunded ? `, refunded ${refunded}` : ''}`);
+  }
+  await offline.close();
+  console.log(mismatches ? `${mismatches} unexpected response(s)` : 'all responses as expected');
+  process.exit(mismatches ? 1 : 0);
+}
@@ -9,6 +9,7 @@ import ScrollToTop from "./components/ScrollToTop";
 import Index from "./pages/Index";
 import PackageSelected from "./pages/PackageSelected";
 import Checkout from "./pages/Checkout";
+import GiftCard from "./pages/GiftCard";
 import OrderConfirmation from "./pages/OrderConfirmation";
 import NotFound from "./pages/NotFound";
 import AboutUs from "./pages/AboutUs";
@@ -31,6 +32,7 @@ const App = () => (
             <Route path="/package-selected" element={<PackageSelected />} />
             <Route path="/checkout" element={<Checkout />} />
             <Route path="/order-confirmation" element={<OrderConfirmation />} />
+            <Route path="/gift" element={<GiftCard />} />
             <Route path="/about-us" element={<AboutUs />} />
             <Route path="/contact" element={<ContactPage />} />
             <Route path="/privacy-policy" element={<PrivacyPolicy />} />
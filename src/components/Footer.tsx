@@ -64,6 +64,7 @@ const Footer = () => {
             <ul className="space-y-2">
               <li><button onClick={handleHowItWorksClick} className="text-gray-300 hover:text-secondary transition-colors text-left">How It Works</button></li>
               <li><button onClick={handlePackagesClick} className="text-gray-300 hover:text-secondary transition-colors text-left">Packages</button></li>
+              <li><Link to="/gift" className="text-gray-300 hover:text-secondary transition-colors">Gift a HeritageBox</Link></li>
               <li><Link to="/about-us" className="text-gray-300 hover:text-secondary transition-colors">About Us</Link></li>
               <li><button onClick={handleFAQClick} className="text-gray-300 hover:text-secondary transition-colors text-left">FAQ</button></li>
             </ul>
@@ -3,6 +3,7 @@ import { Check, Star, Sparkles, Info } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Link } from "react-router-dom";
+import { PACKAGES, formatPackagePrice } from '@/utils/catalog';
 
 interface PackageProps {
   name: string;
@@ -112,74 +113,6 @@ const Package = ({ name, price, description, features, popular, color, tapeCount
 };
 
 const PackageComparison = () => {
-  const packages = [
-    {
-      name: "Starter",
-      price: "$69",
-      description: "Perfect for a small collection of precious memories",
-      color: "primary",
-      tapeCount: "3",
-      photoCount: "75",
-      features: [
-        "High-quality digital conversion",
-        "Online access to digital files",
-        "Free shipping both ways",
-        "Online backup (1 year free)",
-        "Professional quality guarantee"
-      ]
-    },
-    {
-      name: "Popular",
-      price: "$179",
-      description: "Our most popular package for growing families",
-      color: "secondary",
-      tapeCount: "10",
-      photoCount: "250",
-      popular: true,
-      features: [
-        "High-quality digital conversion",
-        "Online access to digital files", 
-        "Free shipping both ways",
-        "Online backup (1 year free)",
-        "Professional quality guarantee",
-        "Priority processing"
-      ]
-    },
-    {
-      name: "Dusty Rose",
-      price: "$349",
-      description: "Great for larger collections and family archives",
-      color: "rose-dark",
-      tapeCount: "20",
-      photoCount: "500",
-      features: [
-        "High-quality digital conversion",
-        "Online access to digital files",
-        "Free shipping both ways", 
-        "Online backup (1 year free)",
-        "Professional quality guarantee",
-        "Priority processing"
-      ]
-    },
-    {
-      name: "Eternal",
-      price: "$599",
-      description: "For preserving a lifetime of cherished memories",
-      color: "primary-light",
-      tapeCount: "40",
-      photoCount: "1000",
-      features: [
-        "High-quality digital conversion",
-        "Online access to digital files",
-        "Free shipping both ways",
-        "Online backup (1 year free)", 
-        "Professional quality guarantee",
-        "Priority processing",
-        "Dedicated support specialist"
-      ]
-    }
-  ];
-
   return (
     <section id="packages" className="bg-gradient-to-b from-cream/50 to-white py-24 md:py-32">
       <div className="container mx-auto px-4 md:px-8">
@@ -213,17 +146,17 @@ const PackageComparison = () => {
         </div>
         
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8 lg:gap-6 relative">
-          {packages.map((pkg, index) => (
+          {PACKAGES.map((pkg) => (
             <Package
-              key={index}
+              key={pkg.key}
               name={pkg.name}
-              price={pkg.price}
+              price={formatPackagePrice(pkg)}
               description={pkg.description}
               features={pkg.features}
               popular={pkg.popular}
               color={pkg.color}
-              tapeCount={pkg.tapeCount}
-              photoCount={pkg.photoCount}
+              tapeCount={pkg.tapeCount.toString()}
+              photoCount={pkg.photoCount.toString()}
             />
           ))}
         </div>
@@ -0,0 +1,169 @@
+import { useState, useEffect, useRef } from 'react';
+import { toast } from "sonner";
+import { Loader2 } from 'lucide-react';
+
+// Define types for the PayPal JS SDK
+interface PayPalButtonsOptions {
+  style?: {
+    layout?: 'vertical' | 'horizontal';
+    color?: 'gold' | 'blue' | 'silver' | 'white' | 'black';
+    shape?: 'rect' | 'pill';
+    label?: 'paypal' | 'checkout' | 'buynow' | 'pay';
+  };
+  createOrder: () => Promise<string>;
+  onApprove: (data: { orderID: string }) => Promise<void>;
+  onCancel?: () => void;
+  onError?: (error: unknown) => void;
+}
+
+interface PayPalButtons {
+  render: (selector: string) => Promise<void>;
+  close?: () => Promise<void>;
+}
+
+interface PayPal {
+  Buttons: (options: PayPalButtonsOptions) => PayPalButtons;
+}
+
+interface PayPalPaymentProps {
+  createOrder: () => Promise<string>;
+  onApprove: (paypalOrderId: string) => Promise<void>;
+  isProcessing: boolean;
+}
+
+declare global {
+  interface Window { paypal?: PayPal; }
+}
+
+// VITE_PAYPAL_SDK_URL points the button at scripts/mock-paypal-server.mjs for offline testing
+const getPayPalSdkUrl = () => {
+  if (import.meta.env.VITE_PAYPAL_SDK_URL) {
+    return import.meta.env.VITE_PAYPAL_SDK_URL;
+  }
+
+  const clientId = import.meta.env.VITE_PAYPAL_CLIENT_ID;
+  if (!clientId) {
+    console.error("PayPal configuration is missing. Ensure VITE_PAYPAL_CLIENT_ID is set in your .env file.");
+    return '';
+  }
+  return `https://www.paypal.com/sdk/js?client-id=${encodeURIComponent(clientId)}&currency=USD&intent=capture&disable-funding=card`;
+};
+
+const PayPalPayment = ({ createOrder, onApprove, isProcessing }: PayPalPaymentProps) => {
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sdkUrl] = useState(getPayPalSdkUrl());
+  // The SDK keeps the callbacks it was rendered with, so read the latest props through a ref
+  const callbacksRef = useRef({ createOrder, onApprove });
+  callbacksRef.current = { createOrder, onApprove };
+
+  useEffect(() => {
+    if (!sdkUrl) {
+      setError("PayPal is not available");
+      return;
+    }
+
+    const existingScript = document.getElementById('paypal-script');
+    if (existingScript) {
+      document.body.removeChild(existingScript);
+    }
+
+    // Load the PayPal JS SDK
+    const script = document.createElement('script');
+    script.id = 'paypal-script';
+    script.src = sdkUrl;
+    script.async = true;
+    script.onload = () => {
+      console.log("PayPal SDK loaded successfully");
+      setLoaded(true);
+    };
+    script.onerror = (e) => {
+      console.error("Failed to load PayPal SDK:", e);
+      setError("PayPal is not available");
+    };
+    document.body.appendChild(script);
+
+    return () => {
+      const scriptToRemove = document.getElementById('paypal-script');
+      if (scriptToRemove) {
+        try {
+          document.body.removeChild(scriptToRemove);
+        } catch (e) {
+          console.warn("Script already removed:", e);
+        }
+      }
+    };
+  }, [sdkUrl]);
+
+  useEffect(() => {
+    if (!loaded) return;
+
+    if (!window.paypal) {
+      console.error("PayPal SDK not available");
+      setError("PayPal is not available");
+      return;
+    }
+
+    const buttons = window.paypal.Buttons({
+      style: { layout: 'horizontal', color: 'gold', shape: 'rect', label: 'paypal' },
+      createOrder: async () => {
+        try {
+          return await callbacksRef.current.createOrder();
+        } catch (e) {
+          console.error("PayPal order creation error:", e);
+          toast.error("PayPal payment failed", {
+            description: e.message || "Please try again or use a different payment method",
+            position: "top-center",
+          });
+          throw e;
+        }
+      },
+      onApprove: async (data) => {
+        await callbacksRef.current.onApprove(data.orderID);
+      },
+      onCancel: () => {
+        toast.info("PayPal payment cancelled", {
+          description: "You have not been charged",
+          position: "top-center",
+        });
+      },
+      onError: (e) => {
+        console.error("PayPal button error:", e);
+      }
+    });
+
+    buttons.render('#paypal-button-container').catch((e) => {
+      console.error("Failed to render PayPal button:", e);
+      setError("PayPal is not available");
+    });
+
+    return () => {
+      buttons.close?.().catch(() => undefined);
+    };
+  }, [loaded]);
+
+  if (error) {
+    return (
+      <p className="text-sm text-center text-gray-500">
+        {error}. Please pay by card instead.
+      </p>
+    );
+  }
+
+  return (
+    <div className="relative">
+      {!loaded && (
+        <div className="flex items-center justify-center h-12 text-gray-500">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          <span className="ml-2">Loading PayPal...</span>
+        </div>
+      )}
+      <div
+        id="paypal-button-container"
+        className={isProcessing ? 'pointer-events-none opacity-50' : ''}
+      />
+    </div>
+  );
+};
+
+export default PayPalPayment;
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { toast } from "sonner";
+import { Loader2, KeyRound } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { SavedCard } from '@/components/SquarePayment';
+
+interface SavedCardLoginProps {
+  email: string;
+  disabled?: boolean;
+  onVerified: (cards: SavedCard[], cardAccessToken: string) => void;
+}
+
+// Returning customers confirm their email with a one-time code before the
+// cards saved to their profile are offered (see /api/saved-cards)
+const SavedCardLogin = ({ email, disabled, onVerified }: SavedCardLoginProps) => {
+  const [open, setOpen] = useState(false);
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const callSavedCards = async (body: Record<string, unknown>) => {
+    const response = await fetch('/api/saved-cards', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+    return response.json();
+  };
+
+  const requestCode = async () => {
+    setLoading(true);
+    try {
+      const result = await callSavedCards({ action: 'request_code', email });
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      setChallenge(result.challenge);
+      setCode('');
+      toast.info("Check your email", {
+        description: `We sent an 8-digit code to ${email}`,
+      });
+    } catch (error) {
+      toast.error("Could not send the code", {
+        description: error.message || "Please try again or enter your card details",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const verifyCode = async () => {
+    setLoading(true);
+    try {
+      const result = await callSavedCards({ action: 'verify', email, code, challenge });
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      if (result.cards.length === 0) {
+        toast.info("No saved cards", {
+          description: "There are no cards saved for this email. Please enter your card details.",
+        });
+        setOpen(false);
+        return;
+      }
+      onVerified(result.cards, result.cardAccessToken);
+      setOpen(false);
+    } catch (error) {
+      toast.error("Code not accepted", {
+        description: error.message || "Please check the code and try again",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        className="flex items-center gap-2 text-blue-600 hover:text-blue-700 transition-colors text-sm"
+      >
+        <KeyRound size={16} />
+        <span>Returning customer? Use a saved card</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-xl space-y-3">
+      <p className="text-sm text-gray-700">
+        {challenge
+          ? `Enter the code we sent to ${email}.`
+          : `We'll email a code to ${email} to show the cards you saved.`}
+      </p>
+      {challenge && (
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 8))}
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="8-digit code"
+          disabled={loading}
+        />
+      )}
+      <div className="flex items-center gap-3">
+        <Button
+          type="button"
+          size="sm"
+          onClick={challenge ? verifyCode : requestCode}
+          disabled={loading || disabled || (!!challenge && code.length !== 8)}
+        >
+          {loading && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+          {challenge ? 'Show my cards' : 'Email me a code'}
+        </Button>
+        {challenge && (
+          <button
+            type="button"
+            onClick={requestCode}
+            disabled={loading}
+            className="text-sm text-gray-500 hover:text-gray-700"
+          >
+            Send a new code
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          disabled={loading}
+          className="text-sm text-gray-500 hover:text-gray-700 ml-auto"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SavedCardLogin;
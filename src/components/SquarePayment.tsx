@@ -1,17 +1,62 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import { Loader2, CreditCard as CardIcon, ShieldCheck } from 'lucide-react';
+import { Loader2, CreditCard as CardIcon, ShieldCheck, AlertCircle, Gift } from 'lucide-react';
+import type { PriceBreakdown } from '@/utils/pricing';
 import styles from './SquarePayment.module.css';
 
 // Define types for the Square SDK
 interface Square {
-  payments: (applicationId: string, locationId: string, options?: any) => SquarePayments;
+  payments: (applicationId: string, locationId: string, options?: Record<string, unknown>) => SquarePayments;
 }
 
 interface SquarePayments {
   card: (options?: CardOptions) => Promise<SquareCard>;
+  giftCard: (options?: CardOptions) => Promise<SquareCard>;
+  paymentRequest: (options: PaymentRequestOptions) => SquarePaymentRequest;
+  applePay: (paymentRequest: SquarePaymentRequest) => Promise<SquareWallet>;
+  googlePay: (paymentRequest: SquarePaymentRequest) => Promise<SquareWallet>;
+  verifyBuyer: (source: string, details: VerificationDetails) => Promise<{ token?: string; userChallenged?: boolean } | null>;
+}
+
+// Buyer details for Strong Customer Authentication (3-D Secure)
+export interface BillingContact {
+  givenName: string;
+  familyName: string;
+  email?: string;
+  phone?: string;
+  addressLines?: string[];
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  countryCode: string;
+}
+
+interface VerificationDetails {
+  amount: string;
+  currencyCode: string;
+  intent: 'CHARGE' | 'STORE' | 'CHARGE_AND_STORE';
+  billingContact: BillingContact;
+}
+
+interface PaymentRequestLineItem {
+  label: string;
+  amount: string;
+  pending?: boolean;
+}
+
+interface PaymentRequestOptions {
+  countryCode: string;
+  currencyCode: string;
+  total: PaymentRequestLineItem;
+  lineItems?: PaymentRequestLineItem[];
+  requestBillingContact?: boolean;
+  requestShippingContact?: boolean;
+}
+
+interface SquarePaymentRequest {
+  update: (options: Partial<PaymentRequestOptions>) => boolean;
 }
 
 interface CardOptions {
@@ -30,28 +75,88 @@ interface CardOptions {
   };
 }
 
+// Passed to onSuccess with the card token
+export interface TokenDetails {
+  method?: string;
+  card?: {
+    brand: string;
+    last4: string;
+    expMonth: number;
+    expYear: number;
+  };
+}
+
+interface TokenResult {
+  status: string;
+  token?: string;
+  details?: TokenDetails;
+}
+
 interface SquareCard {
-  attach: (selector: string, options?: any) => Promise<void>;
-  tokenize: () => Promise<{
-    status: string;
-    token?: string;
-    details?: {
-      card?: {
-        brand: string;
-        last4: string;
-        expMonth: number;
-        expYear: number;
-      };
-    };
-  }>;
+  attach: (selector: string, options?: CardOptions) => Promise<void>;
+  tokenize: () => Promise<TokenResult>;
   destroy?: () => void;
 }
 
+// Apple Pay draws no button of its own, so only Google Pay is attached
+interface SquareWallet {
+  attach?: (selector: string, options?: GooglePayButtonOptions) => Promise<void>;
+  tokenize: () => Promise<TokenResult>;
+  destroy?: () => Promise<boolean> | void;
+}
+
+interface GooglePayButtonOptions {
+  buttonColor?: 'default' | 'black' | 'white';
+  buttonSizeMode?: 'static' | 'fill';
+  buttonType?: 'long' | 'short' | 'buy' | 'plain';
+}
+
+export type WalletType = 'Apple Pay' | 'Google Pay';
+
+// Passed to onSuccess alongside the card token
+export interface PaymentExtras {
+  walletType?: WalletType;
+  verificationToken?: string;
+  giftCardToken?: string;
+  // A card on file charged instead of a new card (see /api/saved-cards)
+  cardId?: string;
+  // The buyer asked to keep the new card for next time
+  saveCard?: boolean;
+}
+
+// A card on file, as listed by /api/saved-cards
+export interface SavedCard {
+  id: string;
+  brand?: string;
+  last4?: string;
+  expMonth?: number;
+  expYear?: number;
+}
+
+// Set when the gift card balance doesn't cover the order total
+export interface GiftCardSplit {
+  giftCardAmount: number;
+  remainingAmount: number;
+}
+
+// The parts of the price breakdown shown in the wallet payment sheet
+export type PaymentSummary = Pick<PriceBreakdown, 'lineItems' | 'total' | 'discountAmount' | 'discountLabel' | 'couponCode'>
+  & Partial<Pick<PriceBreakdown, 'taxAmount' | 'taxLabel'>>;
+
 interface SquarePaymentProps {
-  onSuccess: (token: string, details: any) => void;
+  // token is null when a gift card pays for the whole order or a saved card is used
+  onSuccess: (token: string | null, details: TokenDetails | null, extras?: PaymentExtras) => void | Promise<void>;
   buttonColorClass: string;
   isProcessing: boolean;
   amount: string;
+  pricing: PaymentSummary;
+  billingContact: BillingContact;
+  allowGiftCard?: boolean;
+  giftCardSplit?: GiftCardSplit | null;
+  onGiftCardRemoved?: () => void;
+  // Offer to save the new card to the customer's profile
+  allowSaveCard?: boolean;
+  savedCards?: SavedCard[];
 }
 
 declare global {
@@ -90,27 +195,102 @@ const getSquareConfig = () => {
   };
 };
 
+// Minimal card configuration with only confirmed valid Square SDK styles
+// (shared by the card and gift card fields)
+const cardOptions: CardOptions = {
+  style: {
+    '.input-container': {
+      borderRadius: '8px',
+      borderColor: '#D1D5DB',
+      borderWidth: '1px'
+    },
+    '.input-container.is-focus': {
+      borderColor: '#3B82F6'
+    },
+    '.input-container.is-error': {
+      borderColor: '#EF4444'
+    }
+  }
+};
+
+// Wallet sheet contents, built from the same lines as the order summary
+const buildPaymentRequest = (pricing: PaymentSummary): PaymentRequestOptions => {
+  const lineItems: PaymentRequestLineItem[] = pricing.lineItems.map(line => ({
+    label: line.quantity > 1 ? `${line.name} × ${line.quantity}` : line.name,
+    amount: line.lineTotal.toFixed(2)
+  }));
+  if (pricing.discountAmount > 0) {
+    lineItems.push({
+      label: pricing.discountLabel || `Discount (${pricing.couponCode})`,
+      amount: (-pricing.discountAmount).toFixed(2)
+    });
+  }
+  if (pricing.taxAmount > 0) {
+    lineItems.push({
+      label: pricing.taxLabel || 'Sales Tax',
+      amount: pricing.taxAmount.toFixed(2)
+    });
+  }
+
+  return {
+    countryCode: 'US',
+    currencyCode: 'USD',
+    lineItems,
+    total: { label: 'HeritageBox', amount: pricing.total.toFixed(2) }
+  };
+};
+
 // Mobile detection utility
 const isMobileDevice = () => {
   return /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) ||
          (window.innerWidth <= 768);
 };
 
-const SquarePayment = ({ onSuccess, buttonColorClass, isProcessing, amount }: SquarePaymentProps) => {
+const SquarePayment = ({
+  onSuccess,
+  buttonColorClass,
+  isProcessing,
+  amount,
+  pricing,
+  billingContact,
+  allowGiftCard = true,
+  giftCardSplit,
+  onGiftCardRemoved,
+  allowSaveCard = false,
+  savedCards
+}: SquarePaymentProps) => {
   const [loaded, setLoaded] = useState(false);
+  const [payments, setPayments] = useState<SquarePayments | null>(null);
   const [card, setCard] = useState<SquareCard | null>(null);
+  const [verificationError, setVerificationError] = useState<string | null>(null);
+  const [giftCard, setGiftCard] = useState<SquareCard | null>(null);
+  const [showGiftCard, setShowGiftCard] = useState(false);
+  const [giftCardLoading, setGiftCardLoading] = useState(false);
+  const [applePay, setApplePay] = useState<SquareWallet | null>(null);
+  const [googlePay, setGooglePay] = useState<SquareWallet | null>(null);
+  const paymentRequestRef = useRef<SquarePaymentRequest | null>(null);
+  // Read by the one-time wallet setup; later changes go through paymentRequest.update()
+  const pricingRef = useRef(pricing);
+  pricingRef.current = pricing;
   const [cardLoading, setCardLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isMobile] = useState(isMobileDevice());
   const [config] = useState(getSquareConfig());
+  // Blocks a second submit while the card is being tokenized
+  const submittingRef = useRef(false);
+  // null pays with the card form; otherwise the ID of a saved card
+  const [selectedCardId, setSelectedCardId] = useState<string | null>(null);
+  const [saveCard, setSaveCard] = useState(false);
 
-  // Cleanup function to destroy card instance
+  // Cleanup function to destroy card and wallet instances
   const cleanupCard = () => {
-    if (card && typeof card.destroy === 'function') {
-      try {
-        card.destroy();
-      } catch (e) {
-        console.warn("Error destroying card instance:", e);
+    for (const instance of [card, giftCard, applePay, googlePay]) {
+      if (instance && typeof instance.destroy === 'function') {
+        try {
+          instance.destroy();
+        } catch (e) {
+          console.warn("Error destroying payment method instance:", e);
+        }
       }
     }
   };
@@ -205,23 +385,6 @@ const SquarePayment = ({ onSuccess, buttonColorClass, isProcessing, amount }: Sq
 
         console.log("Creating card instance with mobile optimization");
         
-        // Minimal card configuration with only confirmed valid Square SDK styles
-        const cardOptions: CardOptions = {
-          style: {
-            '.input-container': {
-              borderRadius: '8px',
-              borderColor: '#D1D5DB',
-              borderWidth: '1px'
-            },
-            '.input-container.is-focus': {
-              borderColor: '#3B82F6'
-            },
-            '.input-container.is-error': {
-              borderColor: '#EF4444'
-            }
-          }
-        };
-
         const cardInstance = await payments.card(cardOptions);
 
         // Double-check container is still available
@@ -240,8 +403,11 @@ const SquarePayment = ({ onSuccess, buttonColorClass, isProcessing, amount }: Sq
         await cardInstance.attach('#card-container');
         console.log("Card attached successfully");
 
+        setPayments(payments);
         setCard(cardInstance);
         setError(null);
+
+        await initializeWallets(payments);
       } catch (e) {
         console.error("Square initialization error:", e);
         setError("Failed to initialize payment form");
@@ -253,22 +419,167 @@ const SquarePayment = ({ onSuccess, buttonColorClass, isProcessing, amount }: Sq
       }
     }
 
+    // Wallets are optional: each one is skipped when the device or browser
+    // doesn't support it, and the card form stays available either way
+    async function initializeWallets(payments: SquarePayments) {
+      const paymentRequest = payments.paymentRequest(buildPaymentRequest(pricingRef.current));
+      paymentRequestRef.current = paymentRequest;
+
+      try {
+        setApplePay(await payments.applePay(paymentRequest));
+      } catch (e) {
+        console.log("Apple Pay not available:", e.message);
+      }
+
+      try {
+        const googlePayInstance = await payments.googlePay(paymentRequest);
+        await googlePayInstance.attach('#google-pay-button', {
+          buttonColor: 'black',
+          buttonSizeMode: 'fill',
+          buttonType: 'long'
+        });
+        setGooglePay(googlePayInstance);
+      } catch (e) {
+        console.log("Google Pay not available:", e.message);
+      }
+    }
+
     // Small delay to ensure DOM is ready
     setTimeout(initializeCard, 100);
   }, [loaded, card, config, isMobile]);
 
+  // The gift card field is only created once the buyer asks for it
+  useEffect(() => {
+    if (!showGiftCard || giftCard || !payments) return;
+
+    let cancelled = false;
+    async function initializeGiftCard() {
+      try {
+        setGiftCardLoading(true);
+        const giftCardInstance = await payments.giftCard(cardOptions);
+        await giftCardInstance.attach('#gift-card-container');
+        if (!cancelled) {
+          setGiftCard(giftCardInstance);
+        }
+      } catch (e) {
+        console.error("Square gift card initialization error:", e);
+        toast.error("Gift cards are unavailable right now", {
+          description: "Please pay by card instead",
+        });
+        setShowGiftCard(false);
+      } finally {
+        setGiftCardLoading(false);
+      }
+    }
+
+    initializeGiftCard();
+    return () => {
+      cancelled = true;
+    };
+  }, [showGiftCard, giftCard, payments]);
+
+  // Saved cards arrive once the customer has verified their email; the first is preselected
+  useEffect(() => {
+    setSelectedCardId(savedCards?.[0]?.id ?? null);
+  }, [savedCards]);
+
+  // Keep the wallet sheet in step with the order summary (e.g. after a coupon)
+  const paymentRequestKey = JSON.stringify(buildPaymentRequest(pricing));
+  useEffect(() => {
+    paymentRequestRef.current?.update(JSON.parse(paymentRequestKey));
+  }, [paymentRequestKey]);
+
+  // Run the issuer's 3-D Secure check. Square only shows a challenge when the
+  // card requires one; returns null if the buyer couldn't be verified.
+  const verifyBuyer = async (
+    source: string,
+    amountToCharge: number,
+    intent: VerificationDetails['intent'] = 'CHARGE'
+  ): Promise<string | null> => {
+    try {
+      const verification = await payments.verifyBuyer(source, {
+        amount: amountToCharge.toFixed(2),
+        currencyCode: 'USD',
+        intent,
+        billingContact
+      });
+      return verification?.token || null;
+    } catch (e) {
+      console.error("Square buyer verification error:", e);
+      return null;
+    }
+  };
+
+  // With a gift card applied, the card is only charged once the server has
+  // reported that the gift card balance doesn't cover the whole order
+  const useGiftCard = showGiftCard && !!giftCard;
+  const useCard = !useGiftCard || !!giftCardSplit;
+  const cardReady = !!card || !!selectedCardId;
+
+  const reportVerificationFailure = () => {
+    const message = "Your bank couldn't verify this card. You have not been charged.";
+    setVerificationError(message);
+    toast.error("Card verification failed", {
+      description: "Please try again and complete your bank's verification, or use a different card",
+    });
+  };
+
   const handlePaymentSubmit = async () => {
-    if (!card) {
+    if ((useCard && !cardReady) || !payments) {
       toast.error("Payment form not ready", {
         description: "Please wait for the payment form to load and try again",
       });
       return;
     }
+    if (submittingRef.current || isProcessing) {
+      return;
+    }
 
+    submittingRef.current = true;
+    setVerificationError(null);
     try {
+      let giftCardToken: string | undefined;
+      if (useGiftCard) {
+        const giftCardResult = await giftCard.tokenize();
+        if (giftCardResult.status !== 'OK' || !giftCardResult.token) {
+          toast.error("Gift card not accepted", {
+            description: "Please check the gift card number and try again",
+          });
+          return;
+        }
+        giftCardToken = giftCardResult.token;
+      }
+
+      if (!useCard) {
+        await onSuccess(null, null, { giftCardToken });
+        return;
+      }
+
+      const amountToCharge = giftCardToken ? giftCardSplit.remainingAmount : pricing.total;
+
+      if (selectedCardId) {
+        const verificationToken = await verifyBuyer(selectedCardId, amountToCharge);
+        if (!verificationToken) {
+          reportVerificationFailure();
+          return;
+        }
+        await onSuccess(null, null, { cardId: selectedCardId, verificationToken, giftCardToken });
+        return;
+      }
+
       const result = await card.tokenize();
       if (result.status === 'OK' && result.token) {
-        onSuccess(result.token, result.details);
+        const storeCard = allowSaveCard && saveCard;
+        const verificationToken = await verifyBuyer(
+          result.token,
+          amountToCharge,
+          storeCard ? 'CHARGE_AND_STORE' : 'CHARGE'
+        );
+        if (!verificationToken) {
+          reportVerificationFailure();
+          return;
+        }
+        await onSuccess(result.token, result.details, { verificationToken, giftCardToken, saveCard: storeCard });
       } else {
         toast.error("Payment processing failed", {
           description: "Please check your card details and try again",
@@ -279,9 +590,151 @@ const SquarePayment = ({ onSuccess, buttonColorClass, isProcessing, amount }: Sq
       toast.error("Payment processing error", {
         description: "Please try again or use a different card",
       });
+    } finally {
+      submittingRef.current = false;
+    }
+  };
+
+  const toggleGiftCard = () => {
+    if (showGiftCard) {
+      onGiftCardRemoved?.();
+    }
+    setShowGiftCard(!showGiftCard);
+  };
+
+  const renderGiftCard = () => (
+    <div className="mb-6">
+      <button
+        type="button"
+        onClick={toggleGiftCard}
+        className="flex items-center gap-2 text-blue-600 hover:text-blue-700 transition-colors text-sm"
+        disabled={isProcessing}
+      >
+        <Gift size={16} />
+        <span>{showGiftCard ? 'Remove gift card' : 'Have a HeritageBox gift card?'}</span>
+      </button>
+
+      {showGiftCard && (
+        <div className="mt-3 space-y-2">
+          <div id="gift-card-container" className={styles.cardContainer} />
+          {giftCardLoading && (
+            <div className="flex items-center text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              Loading gift card form...
+            </div>
+          )}
+          <p className="text-sm text-gray-600">
+            {giftCardSplit
+              ? `Your gift card covers $${giftCardSplit.giftCardAmount.toFixed(2)}. Enter a card above for the remaining $${giftCardSplit.remainingAmount.toFixed(2)}.`
+              : 'If the balance doesn\'t cover your order, we\'ll ask for a card for the rest.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+
+  const handleWalletSubmit = async (wallet: SquareWallet | null, walletType: WalletType) => {
+    if (!wallet || submittingRef.current || isProcessing) {
+      return;
+    }
+
+    submittingRef.current = true;
+    try {
+      const result = await wallet.tokenize();
+      if (result.status === 'OK' && result.token) {
+        await onSuccess(result.token, result.details, { walletType });
+      } else if (result.status !== 'Cancel') {
+        toast.error(`${walletType} payment failed`, {
+          description: "Please try again or pay by card",
+        });
+      }
+    } catch (e) {
+      console.error(`${walletType} payment error:`, e);
+      toast.error(`${walletType} payment error`, {
+        description: "Please try again or pay by card",
+      });
+    } finally {
+      submittingRef.current = false;
     }
   };
 
+  const renderSavedCards = () => (
+    <div className="space-y-2 mb-4" role="radiogroup" aria-label="Saved cards">
+      {savedCards.map(savedCard => (
+        <label
+          key={savedCard.id}
+          className={`flex items-center gap-3 p-3 border rounded-lg cursor-pointer ${
+            selectedCardId === savedCard.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+          }`}
+        >
+          <input
+            type="radio"
+            name="saved-card"
+            checked={selectedCardId === savedCard.id}
+            onChange={() => setSelectedCardId(savedCard.id)}
+            disabled={isProcessing}
+            className="h-4 w-4"
+          />
+          <CardIcon size={16} className="text-gray-500" />
+          <span className="text-sm text-gray-900">
+            {savedCard.brand || 'Card'} ending in {savedCard.last4}
+          </span>
+          {savedCard.expMonth && savedCard.expYear && (
+            <span className="text-xs text-gray-500 ml-auto">
+              Expires {String(savedCard.expMonth).padStart(2, '0')}/{String(savedCard.expYear).slice(-2)}
+            </span>
+          )}
+        </label>
+      ))}
+      <label
+        className={`flex items-center gap-3 p-3 border rounded-lg cursor-pointer ${
+          selectedCardId === null ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+        }`}
+      >
+        <input
+          type="radio"
+          name="saved-card"
+          checked={selectedCardId === null}
+          onChange={() => setSelectedCardId(null)}
+          disabled={isProcessing}
+          className="h-4 w-4"
+        />
+        <span className="text-sm text-gray-900">Use a new card</span>
+      </label>
+    </div>
+  );
+
+  const renderWalletButtons = () => {
+    const hasWallet = !!applePay || !!googlePay;
+
+    return (
+      <div className={hasWallet ? 'space-y-3 mb-6' : ''}>
+        {applePay && (
+          <button
+            type="button"
+            aria-label="Pay with Apple Pay"
+            className={styles.applePayButton}
+            onClick={() => handleWalletSubmit(applePay, 'Apple Pay')}
+            disabled={isProcessing}
+          />
+        )}
+        {/* Google Pay attaches its own button here */}
+        <div
+          id="google-pay-button"
+          className={isProcessing ? 'pointer-events-none opacity-50' : ''}
+          onClick={() => handleWalletSubmit(googlePay, 'Google Pay')}
+        />
+        {hasWallet && (
+          <div className="flex items-center gap-3 text-sm text-gray-400">
+            <div className="flex-1 border-t border-gray-100" />
+            <span>or pay by card</span>
+            <div className="flex-1 border-t border-gray-100" />
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const renderCardContainer = () => {
     const showLoadingState = (cardLoading && !card) || !loaded;
     const showErrorState = error && !cardLoading;
@@ -362,6 +815,9 @@ const SquarePayment = ({ onSuccess, buttonColorClass, isProcessing, amount }: Sq
 
   return (
     <div className={`${styles.squarePaymentContainer}`}>
+      {/* Apple Pay / Google Pay, when the device supports them */}
+      {renderWalletButtons()}
+
       {/* Card Information Header */}
       <div className="flex items-start gap-3 mb-6">
         <div className="w-8 h-8 bg-gray-800 text-white flex items-center justify-center rounded-lg mt-1">
@@ -372,9 +828,32 @@ const SquarePayment = ({ onSuccess, buttonColorClass, isProcessing, amount }: Sq
         </div>
       </div>
       
-      {/* Card Input Container */}
+      {/* Cards on file for a verified returning customer */}
+      {savedCards?.length > 0 && renderSavedCards()}
+
+      {/* Card Input Container, kept mounted while a saved card is selected */}
       <div className="mb-6">
-        {renderCardContainer()}
+        <div className={selectedCardId ? 'hidden' : ''}>
+          {renderCardContainer()}
+          {allowSaveCard && (
+            <label className="flex items-center gap-2 mt-3 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={saveCard}
+                onChange={(e) => setSaveCard(e.target.checked)}
+                disabled={isProcessing}
+                className="h-4 w-4"
+              />
+              <span>Save this card for next time</span>
+            </label>
+          )}
+        </div>
+        {verificationError && (
+          <div className="flex items-start gap-2 mt-3 text-sm text-red-600" role="alert">
+            <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+            <span>{verificationError} Please try again and complete the verification step, or use a different card.</span>
+          </div>
+        )}
       </div>
       
       {/* Credit Cards Accepted Link */}
@@ -384,6 +863,9 @@ const SquarePayment = ({ onSuccess, buttonColorClass, isProcessing, amount }: Sq
           <span>All major credit cards accepted</span>
         </button>
       </div>
+
+      {/* Gift card, alone or split with the card */}
+      {allowGiftCard && renderGiftCard()}
       
       {/* Security Message */}
       <div className="flex items-center gap-2 text-sm text-gray-600 mb-6">
@@ -395,7 +877,7 @@ const SquarePayment = ({ onSuccess, buttonColorClass, isProcessing, amount }: Sq
       <Button
         onClick={handlePaymentSubmit}
         className={`w-full h-14 bg-yellow-500 hover:bg-yellow-600 text-gray-900 font-semibold text-lg rounded-xl shadow-lg hover:shadow-xl transition-all flex items-center justify-center gap-3`}
-        disabled={isProcessing || !card || !!error}
+        disabled={isProcessing || !!error || (useCard ? !cardReady : giftCardLoading)}
       >
         {isProcessing ? (
           <>
@@ -404,7 +886,9 @@ const SquarePayment = ({ onSuccess, buttonColorClass, isProcessing, amount }: Sq
           </>
         ) : (
           <>
-            Pay {amount}
+            {!useGiftCard && `Pay ${amount}`}
+            {useGiftCard && !giftCardSplit && `Pay ${amount} with Gift Card`}
+            {useGiftCard && giftCardSplit && `Pay $${giftCardSplit.remainingAmount.toFixed(2)} + Gift Card`}
             <ShieldCheck className="w-5 h-5" />
           </>
         )}
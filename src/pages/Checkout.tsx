@@ -12,10 +12,22 @@ import {
   AlertCircle, ArrowRight, CreditCard as PaymentIcon,
   Loader2, Tag, Star, Shield, Award
 } from 'lucide-react';
-import SquarePayment from '@/components/SquarePayment';
+import SquarePayment, { type GiftCardSplit, type PaymentExtras, type SavedCard, type TokenDetails } from '@/components/SquarePayment';
+import SavedCardLogin from '@/components/SavedCardLogin';
+import PayPalPayment from '@/components/PayPalPayment';
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { sendEmailToHeritageBox, generateOrderId } from '@/utils/emailUtils';
-import { sendOrderToAirtable, parseAddOnDetails, parseSpeedDetails } from '@/utils/airtableUtils';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DIGITIZING_OPTIONS, findPackageByName, formatPackageAllowance, formatPackagePrice, getAddOn } from '@/utils/catalog';
+import {
+  calculateOrderPricing,
+  MAX_USB_DRIVES,
+  type AppliedDiscount,
+  type DigitizingSpeed
+} from '@/utils/pricing';
+import { findBundledTaxRate } from '@/utils/tax';
+import { isUsStateCode, US_STATES } from '@/utils/usStates';
+import { DECLINE_GUIDANCE, isDeclineReason, type DeclineReason } from '@/utils/paymentErrors';
+import type { PaymentFailure, PaymentResult, PaymentSuccess, PayPalOrderResult } from '@/utils/paymentResult';
 import { 
   Form,
   FormControl,
@@ -36,7 +48,7 @@ const shippingFormSchema = z.object({
   phone: z.string().min(10, "Please enter a valid phone number").regex(/^[\+]?[1-9][\d]{0,15}$/, "Please enter a valid phone number"),
   address: z.string().min(5, "Please enter your complete address"),
   city: z.string().min(2, "Please enter a valid city"),
-  state: z.string().min(2, "Please enter a valid state"),
+  state: z.string().refine(isUsStateCode, "Please choose your state"),
   zipCode: z.string().min(5, "Please enter a valid ZIP code").max(10)
 });
 
@@ -79,175 +91,141 @@ const Checkout = () => {
   const [digitizingSpeed, setDigitizingSpeed] = useState('standard'); // 'standard', 'expedited', or 'rush'
   const [couponCode, setCouponCode] = useState('');
   const [appliedCoupon, setAppliedCoupon] = useState('');
-  const [couponDiscount, setCouponDiscount] = useState(0);
+  const [appliedDiscount, setAppliedDiscount] = useState<AppliedDiscount | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   // Remove the separate formState and use form values directly
   const [validatedFormData, setValidatedFormData] = useState<FormState | null>(null);
+  // Identifies this checkout to the server so retries and double submits are deduplicated
+  const [checkoutSessionId, setCheckoutSessionId] = useState<string | null>(null);
+  const [paymentAttempt, setPaymentAttempt] = useState(1);
+  // What a gift card covers once the server has found its balance short of the total
+  const [giftCardSplit, setGiftCardSplit] = useState<GiftCardSplit | null>(null);
+  // Why the last card payment was declined, shown above the card form until the next attempt
+  const [paymentDecline, setPaymentDecline] = useState<DeclineReason | null>(null);
+  // Changing the key remounts the card form empty so another card can be entered
+  const [cardFormKey, setCardFormKey] = useState(0);
+  // Cards on file, once a returning customer has verified their email
+  const [savedCards, setSavedCards] = useState<SavedCard[] | null>(null);
+  const [cardAccessToken, setCardAccessToken] = useState<string | null>(null);
 
   // Define digitizing time options
-  const digitizingOptions = [
-    {
-      id: 'standard',
-      name: 'Standard',
-      price: 0,
-      time: '4-6 weeks',
-      description: 'Our standard digitizing service'
-    },
-    {
-      id: 'expedited',
-      name: 'Expedited',
-      price: 29.99,
-      time: '2-3 weeks',
-      description: 'Faster processing of your memories'
-    },
-    {
-      id: 'rush',
-      name: 'Rush',
-      price: 64.99,
-      time: '10 business days',
-      description: 'Priority handling for urgent projects'
-    }
-  ];
+  const digitizingOptions = DIGITIZING_OPTIONS;
 
-  // Define all packages (updated with new prices and description)
-  const allPackages = [
-    {
-      name: "Starter",
-      price: "$69",
-      numericPrice: 69,
-      description: "Perfect for a small collection of memories",
-      color: "primary",
-      features: [
-        "Digitize up to 3 tapes OR up to 75 photos",
-        "Online access to digital files",
-        "Free shipping both ways"
-      ]
-    },
-    {
-      name: "Popular",
-      price: "$179",
-      numericPrice: 179,
-      description: "Our most popular package for families",
-      color: "secondary",
-      popular: true,
-      features: [
-        "Digitize up to 10 tapes OR up to 250 photos",
-        "Online access to digital files",
-        "Free shipping both ways",
-        "Online Backup (1 Year Free)"
-      ]
-    },
-    {
-      name: "Dusty Rose",
-      price: "$349",
-      numericPrice: 349,
-      description: "Great for larger collections",
-      color: "rose-dark",
-      features: [
-        "Digitize up to 20 tapes OR up to 500 photos",
-        "Online access to digital files",
-        "Free shipping both ways",
-        "Online Backup (1 Year Free)"
-      ]
-    },
-    {
-      name: "Eternal",
-      price: "$599",
-      numericPrice: 599,
-      description: "For preserving a lifetime of memories",
-      color: "primary-light",
-      features: [
-        "Digitize up to 40 tapes OR up to 1000 photos",
-        "Online access to digital files",
-        "Free shipping both ways",
-        "Online Backup (1 Year Free)"
-      ]
-    }
-  ];
-  
-  // Get selected package details
-  const getPackageDetails = () => {
-    return allPackages.find(pkg => pkg.name === packageType) || allPackages[1];
-  };
-
-  const packageDetails = getPackageDetails();
+  // Get selected package details from the shared catalog
+  const packageDetails = findPackageByName(packageType);
+  const packageFeatures = [formatPackageAllowance(packageDetails), ...packageDetails.features];
 
   // USB drive price
-  const USB_DRIVE_PRICE = 24.95;
-  const CLOUD_BACKUP_PRICE = 0; // Updated price to zero
-
-  // Function to generate sequential order number (same as OrderConfirmation)
-  const generateOrderNumber = () => {
-    const baseNumber = 13405;
-    const storedCount = localStorage.getItem('hb_order_count');
-    const currentCount = storedCount ? parseInt(storedCount) : 0;
-    const newCount = currentCount + 1;
-    localStorage.setItem('hb_order_count', newCount.toString());
-    return `HB${(baseNumber + newCount - 1).toString().padStart(5, '0')}`;
-  };
+  const USB_DRIVE_PRICE = getAddOn('usbDrive').price;
 
   // Get selected digitizing option
   const getSelectedDigitizingOption = () => {
     return digitizingOptions.find(option => option.id === digitizingSpeed) || digitizingOptions[0];
   };
 
+  // Package slug as expected by /api/process-payment (e.g. "dusty-rose")
+  const packageSlug = packageDetails.slug;
+
+  // Sales tax depends on the shipping address, so it is only known once the
+  // customer details have been entered
+  const getShippingTaxRate = () => {
+    if (!validatedFormData) return null;
+    return findBundledTaxRate({ state: validatedFormData.state, postalCode: validatedFormData.zipCode });
+  };
+
+  // Price breakdown from the shared pricing module - the server recalculates
+  // the same breakdown before charging
+  const getPricing = () => {
+    return calculateOrderPricing({
+      packageType: packageDetails.key,
+      usbDrives,
+      cloudBackup: cloudBackup > 0,
+      digitizingSpeed: digitizingSpeed as DigitizingSpeed
+    }, appliedDiscount, getShippingTaxRate());
+  };
+
+  // Order selection in the shape expected by the API routes
+  const getOrderSelection = () => {
+    return {
+      packageType: packageSlug,
+      usbDrives,
+      cloudBackup: cloudBackup > 0,
+      digitizingSpeed
+    };
+  };
+
   // Calculate subtotal before discount
   const calculateSubtotal = () => {
-    const packagePrice = packageDetails.numericPrice || parseFloat(packageDetails.price.replace('$', ''));
-    const usbTotal = usbDrives * USB_DRIVE_PRICE;
-    const cloudTotal = cloudBackup * CLOUD_BACKUP_PRICE;
-    const digitizingOption = getSelectedDigitizingOption();
-    const speedPrice = digitizingOption ? digitizingOption.price : 0;
-    
-    return packagePrice + usbTotal + cloudTotal + speedPrice;
+    return getPricing().subtotal;
   };
 
   // Calculate total price with coupon discount
   const calculateTotal = () => {
-    const subtotal = calculateSubtotal();
-    const discount = subtotal * (couponDiscount / 100);
-    return (subtotal - discount).toFixed(2);
+    return getPricing().total.toFixed(2);
   };
 
-  // Handle coupon code application
-  const applyCouponCode = () => {
+  // Handle coupon code application - codes are validated by /api/validate-coupon
+  const applyCouponCode = async () => {
     const trimmedCode = couponCode.trim().toUpperCase();
     
-    console.log('Applying coupon code:', trimmedCode); // Debug log
-    
-    if (trimmedCode === 'SAVE15' || trimmedCode === '15OFF') {
-      setAppliedCoupon(trimmedCode);
-      setCouponDiscount(15);
-      toast.success("Coupon applied!", {
-        description: "You saved 15% on your order!",
+    if (trimmedCode === '') {
+      toast.error("Please enter a coupon code", {
         position: "top-center",
       });
-    } else if (trimmedCode === '99DOFF') {
+      return;
+    }
+    
+    setIsApplyingCoupon(true);
+    
+    try {
+      const response = await fetch('/api/validate-coupon', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          code: trimmedCode,
+          email: form.getValues('email') || validatedFormData?.email,
+          orderDetails: getOrderSelection()
+        }),
+      });
+      
+      const result = await response.json();
+      
+      if (!result.success) {
+        console.log('Coupon rejected:', trimmedCode, result.code);
+        toast.error(result.code === 'NOT_FOUND' ? "Invalid coupon code" : "Coupon not applied", {
+          description: result.code === 'NOT_FOUND'
+            ? "Please check your coupon code and try again."
+            : result.error,
+          position: "top-center",
+        });
+        return;
+      }
+      
       setAppliedCoupon(trimmedCode);
-      setCouponDiscount(99);
+      setAppliedDiscount(result.discount);
       toast.success("Coupon applied!", {
-        description: "You saved 99% on your order!",
+        description: `You saved ${result.pricing.discountLabel} your order!`,
         position: "top-center",
       });
-      console.log('99DOFF coupon applied successfully'); // Debug log
-    } else if (trimmedCode === '') {
-      toast.error("Please enter a coupon code", {
-        position: "top-center",
-      });
-    } else {
-      console.log('Invalid coupon code entered:', trimmedCode); // Debug log
-      toast.error("Invalid coupon code", {
-        description: "Please check your coupon code and try again.",
+    } catch (error) {
+      console.error('Coupon validation failed:', error);
+      toast.error("Could not apply coupon", {
+        description: "Please try again in a moment.",
         position: "top-center",
       });
+    } finally {
+      setIsApplyingCoupon(false);
     }
   };
   
   // Remove applied coupon
   const removeCoupon = () => {
     setAppliedCoupon('');
-    setCouponDiscount(0);
+    setAppliedDiscount(null);
     setCouponCode('');
     toast.success("Coupon removed", {
       position: "top-center",
@@ -257,7 +235,7 @@ const Checkout = () => {
   const handleUsbChange = (change: number) => {
     setUsbDrives(prev => {
       const newValue = prev + change;
-      return newValue >= 0 ? newValue : 0;
+      return Math.min(Math.max(newValue, 0), MAX_USB_DRIVES);
     });
   };
 
@@ -315,7 +293,13 @@ const Checkout = () => {
       
       console.log('💾 Setting validated form data:', completeFormState);
       setValidatedFormData(completeFormState);
-      
+      setCheckoutSessionId(current => current || crypto.randomUUID());
+      // Saved cards were unlocked for the email entered before
+      if (validatedFormData && validatedFormData.email !== completeFormState.email) {
+        setSavedCards(null);
+        setCardAccessToken(null);
+      }
+
       console.log('🎯 Showing payment form');
       setShowCardForm(true);
       
@@ -346,124 +330,93 @@ const Checkout = () => {
     }
   };
 
-  // Function to send order details to Formspree
-  const sendOrderDetailsToFormspree = async (orderInfo: any, paymentInfo?: string) => {
-    try {
-      console.log('🎯 CHECKOUT DEBUG - sendOrderDetailsToFormspree called');
-      console.log('🎯 CHECKOUT DEBUG - orderInfo param:', orderInfo);
-      console.log('🎯 CHECKOUT DEBUG - paymentInfo param:', paymentInfo);
-      
-      // Use customer info from orderInfo parameter
-      const customerInfo = orderInfo.customerInfo;
-      
-      // Ensure we have all required customer info
-      if (!customerInfo.firstName || !customerInfo.lastName || !customerInfo.email) {
-        console.error('❌ CHECKOUT ERROR - Missing required customer information:', customerInfo);
-        throw new Error('Missing required customer information');
+  // Order details posted to the payment APIs, which price the order themselves
+  const getCheckoutOrderDetails = () => ({
+    ...getOrderSelection(),
+    customerInfo: {
+      firstName: validatedFormData.firstName,
+      lastName: validatedFormData.lastName,
+      email: validatedFormData.email,
+      phone: validatedFormData.phone,
+      address: {
+        address_line_1: validatedFormData.address,
+        locality: validatedFormData.city,
+        administrative_district_level_1: validatedFormData.state,
+        postal_code: validatedFormData.zipCode,
+        country: 'US'
       }
-      
-      const selectedDigitizingOption = getSelectedDigitizingOption();
-      console.log('🎯 CHECKOUT DEBUG - Selected digitizing option:', selectedDigitizingOption);
-      
-      // Use the order ID that was already generated and passed in orderInfo
-      const orderId = orderInfo.orderId;
-      console.log('🎯 CHECKOUT DEBUG - Using existing Order ID:', orderId);
-      
-      // Use the discount amount that was already calculated and passed in orderInfo
-      const subtotal = parseFloat(orderInfo.orderDetails.subtotal.replace('$', ''));
-      const discountAmount = parseFloat(orderInfo.orderDetails.discountAmount.replace('$', ''));
-      
-      console.log('🎯 CHECKOUT DEBUG - Subtotal from orderInfo:', subtotal);
-      console.log('🎯 CHECKOUT DEBUG - Discount amount from orderInfo:', discountAmount);
-      
-      const orderDetails = {
-        orderId: orderId,
+    },
+    discountCode: appliedCoupon
+  });
+
+  // Handle a rejected checkout response and throw its message
+  const handleCheckoutFailure = (result: PaymentFailure): never => {
+    if (result.code === 'PRICE_MISMATCH') {
+      console.warn('💳 PAYMENT - Server total differs from order summary:', result.pricing);
+    }
+    if (result.code === 'COUPON_INVALID') {
+      // Drop the coupon so the customer can retry at the full price
+      setAppliedCoupon('');
+      setAppliedDiscount(null);
+    }
+    throw new Error(result.error || 'Payment failed');
+  };
+
+  // The order is saved to Airtable and HeritageBox is notified by the payment APIs
+  const showOrderConfirmation = (result: PaymentSuccess) => {
+    // The server-computed breakdown is what was actually charged
+    const chargedPricing = result.pricing || getPricing();
+    const orderId = result.orderNumber;
+    console.log('💳 PAYMENT SUCCESS - Order recorded:', orderId, result.orderRecorded);
+
+    toast.success("Payment successful!", {
+      description: "Thank you for your order. You will receive a confirmation email shortly.",
+      position: "top-center",
+    });
+    
+    // Pass parameters to order confirmation page including the order ID
+    const params = new URLSearchParams();
+    params.append('package', packageType);
+    if (usbDrives > 0) {
+      params.append('usbDrives', usbDrives.toString());
+    }
+    if (cloudBackup > 0) {
+      params.append('cloudBackup', cloudBackup.toString());
+    }
+    params.append('digitizingSpeed', digitizingSpeed);
+    
+    // Navigate with both URL params and state containing the order ID and customer info
+    navigate('/order-confirmation?' + params.toString(), {
+      state: {
+        orderNumber: orderId,
+        pricing: chargedPricing,
         customerInfo: {
-          firstName: customerInfo.firstName,
-          lastName: customerInfo.lastName,
-          email: customerInfo.email,
-          phone: customerInfo.phone,
-          address: customerInfo.address,
-          city: customerInfo.city,
-          state: customerInfo.state,
-          zipCode: customerInfo.zipCode,
-          fullName: customerInfo.fullName
-        },
-        orderDetails: {
-          package: orderInfo.orderDetails.package,
-          packagePrice: orderInfo.orderDetails.packagePrice,
-          packageFeatures: orderInfo.orderDetails.packageFeatures,
-          subtotal: orderInfo.orderDetails.subtotal,
-          couponCode: orderInfo.orderDetails.couponCode,
-          discountPercent: orderInfo.orderDetails.discountPercent,
-          discountAmount: orderInfo.orderDetails.discountAmount,
-          totalAmount: orderInfo.orderDetails.totalAmount,
-          digitizingSpeed: orderInfo.orderDetails.digitizingSpeed,
-          digitizingTime: orderInfo.orderDetails.digitizingTime,
-          digitizingPrice: orderInfo.orderDetails.digitizingPrice,
-          addOns: orderInfo.orderDetails.addOns
-        },
-        paymentMethod: paymentInfo || "Credit Card",
-        timestamp: new Date().toISOString()
-      };
-      
-      console.log("🎯 CHECKOUT DEBUG - Final order details object with Order ID:", JSON.stringify(orderDetails, null, 2));
-      
-      // Send the email with order details
-      console.log("🎯 CHECKOUT DEBUG - About to call sendEmailToHeritageBox...");
-      const emailResult = await sendEmailToHeritageBox(orderDetails, "Order Completed");
-      
-      if (emailResult) {
-        console.log("✅ CHECKOUT SUCCESS - Order details sent successfully to Formspree with Order ID:", orderId);
-      } else {
-        console.error("❌ CHECKOUT ERROR - Failed to send email to Formspree but continuing with checkout");
+          firstName: validatedFormData.firstName,
+          lastName: validatedFormData.lastName,
+          email: validatedFormData.email
+        }
       }
-      
-      return orderId; // Return the order ID for potential use elsewhere
-      
-    } catch (error) {
-      console.error("❌ CHECKOUT ERROR - Failed to send order details to Formspree:", error);
-      console.error("❌ CHECKOUT ERROR - Full error details:", {
-        message: error.message,
-        stack: error.stack,
-        orderInfo,
-        paymentInfo
-      });
-      // We don't want to show an error to the user here as the payment was successful
-      // Just log the error for debugging purposes
-      return null;
-    }
+    });
   };
 
-  const handlePaymentSuccess = async (token: string, details: any) => {
+  const enterDifferentCard = () => {
+    setPaymentDecline(null);
+    setCardFormKey(key => key + 1);
+  };
+
+  const handlePaymentSuccess = async (token: string | null, details: TokenDetails | null, extras: PaymentExtras = {}) => {
     setIsProcessing(true);
+    setPaymentDecline(null);
     
     try {
       console.log('💳 PAYMENT SUCCESS - Starting payment processing');
       console.log('💳 PAYMENT SUCCESS - Current validated form data:', validatedFormData);
       
       // Ensure we have validated form data
-      if (!validatedFormData) {
+      if (!validatedFormData || !checkoutSessionId) {
         throw new Error('Missing customer information - form data not validated');
       }
       
-      // Build add-ons array based on selections
-      const addOns = [];
-      if (usbDrives > 0) {
-        addOns.push('usb-drive');
-      }
-      if (cloudBackup > 0) {
-        addOns.push('online-gallery');
-      }
-      if (digitizingSpeed === 'expedited') {
-        addOns.push('expedited-processing');
-      } else if (digitizingSpeed === 'rush') {
-        addOns.push('rush-processing');
-      }
-
-      // Map package type to expected format
-      const mappedPackageType = packageType.toLowerCase().replace(' ', '-');
-
       const response = await fetch('/api/process-payment', {
         method: 'POST',
         headers: {
@@ -471,139 +424,57 @@ const Checkout = () => {
         },
         body: JSON.stringify({
           token,
-          amount: parseFloat(calculateTotal()),
-          orderDetails: {
-            packageType: mappedPackageType,
-            addOns: addOns,
-            customerInfo: {
-              firstName: validatedFormData.firstName,
-              lastName: validatedFormData.lastName,
-              email: validatedFormData.email,
-              phone: validatedFormData.phone,
-              address: {
-                address_line_1: validatedFormData.address,
-                locality: validatedFormData.city,
-                administrative_district_level_1: validatedFormData.state,
-                postal_code: validatedFormData.zipCode,
-                country: 'US'
-              }
-            },
-            discountCode: appliedCoupon,
-            discountAmount: couponDiscount > 0 ? calculateSubtotal() * (couponDiscount / 100) : 0
-          }
+          walletType: extras.walletType,
+          verificationToken: extras.verificationToken,
+          giftCardToken: extras.giftCardToken,
+          cardId: extras.cardId,
+          cardAccessToken: extras.cardId ? cardAccessToken : undefined,
+          saveCard: extras.saveCard,
+          checkoutSessionId,
+          paymentAttempt,
+          amount: getPricing().total,
+          orderDetails: getCheckoutOrderDetails()
         }),
       });
 
-      const result = await response.json();
-
-      if (!result.success) {
-        throw new Error(result.error || 'Payment failed');
-      }
-
-      console.log('💳 PAYMENT SUCCESS - Payment processed, now sending email and saving to Airtable');
+      const result: PaymentResult = await response.json();
 
-      // Prepare order data for both email and Airtable
-      const selectedDigitizingOption = getSelectedDigitizingOption();
-      
-      // Generate unique order ID ONCE using the same format as OrderConfirmation
-      const orderId = generateOrderNumber();
-      console.log('💳 PAYMENT SUCCESS - Generated single Order ID:', orderId);
-      
-      // Create add-ons array for legacy support
-      const addOnsArray = [];
-      if (usbDrives > 0) {
-        addOnsArray.push(`${usbDrives} USB Drive(s) - $${(usbDrives * USB_DRIVE_PRICE).toFixed(2)}`);
-      }
-      if (cloudBackup > 0) {
-        addOnsArray.push(`${cloudBackup} Year Cloud Backup - $0.00 (Included)`);
-      }
-
-      // Create detailed breakdown for Airtable
-      const addOnDetails = {
-        photoRestoration: { selected: false, cost: 0 },
-        videoEnhancement: { selected: false, cost: 0 },
-        digitalDelivery: { selected: false, cost: 0 },
-        expressShipping: { selected: false, cost: 0 },
-        storageUpgrade: { selected: usbDrives > 0, cost: usbDrives * USB_DRIVE_PRICE },
-        backupCopies: { selected: cloudBackup > 0, cost: 0 } // Cloud backup is included
-      };
-
-      const speedDetails = parseSpeedDetails(`${selectedDigitizingOption.name} (${selectedDigitizingOption.time})`);
-
-      const orderData = {
-        orderId: orderId,
-        customerInfo: {
-          firstName: validatedFormData.firstName,
-          lastName: validatedFormData.lastName,
-          email: validatedFormData.email,
-          phone: validatedFormData.phone,
-          address: validatedFormData.address,
-          city: validatedFormData.city,
-          state: validatedFormData.state,
-          zipCode: validatedFormData.zipCode,
-          fullName: `${validatedFormData.firstName} ${validatedFormData.lastName}`
-        },
-        orderDetails: {
-          package: packageType,
-          packagePrice: `$${packageDetails.numericPrice.toFixed(2)}`,
-          packageFeatures: packageDetails.features.join(", "),
-          subtotal: `$${calculateSubtotal().toFixed(2)}`,
-          couponCode: appliedCoupon || 'None',
-          discountPercent: couponDiscount,
-          discountAmount: `$${(calculateSubtotal() * (couponDiscount / 100)).toFixed(2)}`,
-          totalAmount: `$${calculateTotal()}`,
-          digitizingSpeed: selectedDigitizingOption.name,
-          digitizingTime: selectedDigitizingOption.time,
-          digitizingPrice: selectedDigitizingOption.price === 0 ? "Free" : `$${selectedDigitizingOption.price.toFixed(2)}`,
-          addOns: addOnsArray,
-          addOnDetails: addOnDetails,
-          speedDetails: speedDetails
-        },
-        paymentMethod: `Credit Card (${details?.card?.brand} ending in ${details?.card?.last4})`,
-        timestamp: new Date().toISOString()
-      };
-
-      console.log('💳 PAYMENT SUCCESS - Order data prepared for email:', orderData);
-
-      // Send order details to Formspree
-      await sendOrderDetailsToFormspree(orderData, "Order Completed");
-
-      // Send order details to Airtable
-      try {
-        await sendOrderToAirtable(orderData);
-        console.log('✅ AIRTABLE SUCCESS - Order saved to Airtable');
-      } catch (airtableError) {
-        console.error('❌ AIRTABLE ERROR - Failed to save to Airtable:', airtableError);
-        // Don't fail the checkout process if Airtable fails
+      if (result.success === false) {
+        // The next submit is a new attempt (e.g. with another card)
+        setPaymentAttempt(attempt => attempt + 1);
+        if (result.code === 'GIFT_CARD_INSUFFICIENT') {
+          // Nothing was charged; the next submit pays the rest by card
+          setGiftCardSplit({ giftCardAmount: result.giftCardAmount, remainingAmount: result.remainingAmount });
+          toast.info("Add a card for the rest", {
+            description: result.error,
+            position: "top-center",
+          });
+          return;
+        }
+        if (result.code === 'PAYMENT_DECLINED') {
+          // Nothing was charged and the shipping details are kept; show what to fix
+          const reason = isDeclineReason(result.declineReason) ? result.declineReason : 'generic';
+          setPaymentDecline(reason);
+          toast.error(DECLINE_GUIDANCE[reason].title, {
+            description: result.error,
+            position: "top-center",
+          });
+          return;
+        }
+        if (result.code === 'SAVED_CARD_UNAVAILABLE') {
+          // The email verification expired or the card was removed; fall back to the card form
+          setSavedCards(null);
+          setCardAccessToken(null);
+          toast.error("Saved card unavailable", {
+            description: result.error,
+            position: "top-center",
+          });
+          return;
+        }
+        return handleCheckoutFailure(result);
       }
 
-      toast.success("Payment successful!", {
-        description: "Thank you for your order. You will receive a confirmation email shortly.",
-        position: "top-center",
-      });
-      
-      // Pass parameters to order confirmation page including the order ID
-      const params = new URLSearchParams();
-      params.append('package', packageType);
-      if (usbDrives > 0) {
-        params.append('usbDrives', usbDrives.toString());
-      }
-      if (cloudBackup > 0) {
-        params.append('cloudBackup', cloudBackup.toString());
-      }
-      params.append('digitizingSpeed', digitizingSpeed);
-      
-      // Navigate with both URL params and state containing the order ID and customer info
-      navigate('/order-confirmation?' + params.toString(), {
-        state: {
-          orderNumber: orderId,
-          customerInfo: {
-            firstName: validatedFormData.firstName,
-            lastName: validatedFormData.lastName,
-            email: validatedFormData.email
-          }
-        }
-      });
+      showOrderConfirmation(result);
     } catch (error) {
       console.error('💳 PAYMENT ERROR:', error);
       toast.error("Payment failed", {
@@ -615,136 +486,68 @@ const Checkout = () => {
     }
   };
 
-  const handlePayPalPayment = () => {
-    setIsProcessing(true);
-    
-    console.log('💰 PAYPAL - Starting PayPal payment processing');
-    console.log('💰 PAYPAL - Current validated form data:', validatedFormData);
-    
-    // Ensure we have validated form data
-    if (!validatedFormData) {
-      setIsProcessing(false);
-      toast.error("Missing customer information", {
-        description: "Please fill out the shipping form first.",
-        position: "top-center",
-      });
-      return;
+  // Called when the PayPal button is clicked; returns the PayPal order ID
+  const createPayPalOrder = async (): Promise<string> => {
+    if (!validatedFormData || !checkoutSessionId) {
+      throw new Error('Missing customer information - form data not validated');
     }
-    
-    // For demo purposes, we'll simulate a successful PayPal payment after a short delay
-    console.log("Processing PayPal payment for:", validatedFormData.email);
-    console.log("Amount:", calculateTotal());
-    console.log("USB drives added:", usbDrives);
-    console.log("Cloud backup years:", cloudBackup);
-    console.log("Digitizing speed:", digitizingSpeed);
-    
-    setTimeout(async () => {
-      console.log('💰 PAYPAL - Payment processed, now sending email and saving to Airtable');
-      
-      // Prepare order data for both email and Airtable
-      const selectedDigitizingOption = getSelectedDigitizingOption();
-      
-      // Generate unique order ID ONCE using the same format as OrderConfirmation
-      const orderId = generateOrderNumber();
-      console.log('💰 PAYPAL - Generated single Order ID:', orderId);
-      
-      // Create add-ons array for legacy support
-      const addOnsArray = [];
-      if (usbDrives > 0) {
-        addOnsArray.push(`${usbDrives} USB Drive(s) - $${(usbDrives * USB_DRIVE_PRICE).toFixed(2)}`);
-      }
-      if (cloudBackup > 0) {
-        addOnsArray.push(`${cloudBackup} Year Cloud Backup - $0.00 (Included)`);
-      }
 
-      // Create detailed breakdown for Airtable
-      const addOnDetails = {
-        photoRestoration: { selected: false, cost: 0 },
-        videoEnhancement: { selected: false, cost: 0 },
-        digitalDelivery: { selected: false, cost: 0 },
-        expressShipping: { selected: false, cost: 0 },
-        storageUpgrade: { selected: usbDrives > 0, cost: usbDrives * USB_DRIVE_PRICE },
-        backupCopies: { selected: cloudBackup > 0, cost: 0 } // Cloud backup is included
-      };
+    const response = await fetch('/api/paypal-orders', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        action: 'create',
+        checkoutSessionId,
+        amount: getPricing().total,
+        orderDetails: getCheckoutOrderDetails()
+      }),
+    });
 
-      const speedDetails = parseSpeedDetails(`${selectedDigitizingOption.name} (${selectedDigitizingOption.time})`);
+    const result: PayPalOrderResult = await response.json();
+    if (result.success === false) {
+      return handleCheckoutFailure(result);
+    }
+    return result.paypalOrderId;
+  };
 
-      const orderData = {
-        orderId: orderId,
-        customerInfo: {
-          firstName: validatedFormData.firstName,
-          lastName: validatedFormData.lastName,
-          email: validatedFormData.email,
-          phone: validatedFormData.phone,
-          address: validatedFormData.address,
-          city: validatedFormData.city,
-          state: validatedFormData.state,
-          zipCode: validatedFormData.zipCode,
-          fullName: `${validatedFormData.firstName} ${validatedFormData.lastName}`
-        },
-        orderDetails: {
-          package: packageType,
-          packagePrice: `$${packageDetails.numericPrice.toFixed(2)}`,
-          packageFeatures: packageDetails.features.join(", "),
-          subtotal: `$${calculateSubtotal().toFixed(2)}`,
-          couponCode: appliedCoupon || 'None',
-          discountPercent: couponDiscount,
-          discountAmount: `$${(calculateSubtotal() * (couponDiscount / 100)).toFixed(2)}`,
-          totalAmount: `$${calculateTotal()}`,
-          digitizingSpeed: selectedDigitizingOption.name,
-          digitizingTime: selectedDigitizingOption.time,
-          digitizingPrice: selectedDigitizingOption.price === 0 ? "Free" : `$${selectedDigitizingOption.price.toFixed(2)}`,
-          addOns: addOnsArray,
-          addOnDetails: addOnDetails,
-          speedDetails: speedDetails
-        },
-        paymentMethod: "PayPal",
-        timestamp: new Date().toISOString()
-      };
+  // Called once the buyer approves the payment in the PayPal window
+  const approvePayPalOrder = async (paypalOrderId: string) => {
+    setIsProcessing(true);
 
-      console.log('💰 PAYPAL - Order data prepared for email:', orderData);
+    try {
+      console.log('💰 PAYPAL - Capturing approved order:', paypalOrderId);
 
-      // Send order details to Formspree
-      await sendOrderDetailsToFormspree(orderData, "Order Completed");
+      const response = await fetch('/api/paypal-orders', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'capture',
+          paypalOrderId,
+          checkoutSessionId,
+          amount: getPricing().total,
+          orderDetails: getCheckoutOrderDetails()
+        }),
+      });
 
-      // Send order details to Airtable
-      try {
-        await sendOrderToAirtable(orderData);
-        console.log('✅ AIRTABLE SUCCESS - PayPal order saved to Airtable');
-      } catch (airtableError) {
-        console.error('❌ AIRTABLE ERROR - Failed to save PayPal order to Airtable:', airtableError);
-        // Don't fail the checkout process if Airtable fails
+      const result: PaymentResult = await response.json();
+      if (result.success === false) {
+        return handleCheckoutFailure(result);
       }
-      
-      setIsProcessing(false);
-      toast.success("PayPal payment successful!", {
-        description: "Thank you for your order. You will receive a confirmation email shortly.",
+
+      showOrderConfirmation(result);
+    } catch (error) {
+      console.error('💰 PAYPAL ERROR:', error);
+      toast.error("PayPal payment failed", {
+        description: error.message || "Please try again or use a different payment method",
         position: "top-center",
       });
-      
-      // Pass parameters to order confirmation page including the order ID
-      const params = new URLSearchParams();
-      params.append('package', packageType);
-      if (usbDrives > 0) {
-        params.append('usbDrives', usbDrives.toString());
-      }
-      if (cloudBackup > 0) {
-        params.append('cloudBackup', cloudBackup.toString());
-      }
-      params.append('digitizingSpeed', digitizingSpeed);
-      
-      // Navigate with both URL params and state containing the order ID and customer info
-      navigate('/order-confirmation?' + params.toString(), {
-        state: {
-          orderNumber: orderId,
-          customerInfo: {
-            firstName: validatedFormData.firstName,
-            lastName: validatedFormData.lastName,
-            email: validatedFormData.email
-          }
-        }
-      });
-    }, 2000);
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
   // Get text color class based on package type
@@ -962,13 +765,18 @@ const Checkout = () => {
                               render={({ field }) => (
                                 <FormItem>
                                   <FormLabel className="text-sm font-semibold text-gray-700">State *</FormLabel>
-                                  <FormControl>
-                                    <Input 
-                                      {...field} 
-                                      className="h-12 border-2 border-gray-200 rounded-xl focus:border-primary focus:ring-0 transition-colors"
-                                      placeholder="CA"
-                                    />
-                                  </FormControl>
+                                  <Select onValueChange={field.onChange} value={field.value}>
+                                    <FormControl>
+                                      <SelectTrigger className="h-12 border-2 border-gray-200 rounded-xl focus:border-primary focus:ring-0 transition-colors">
+                                        <SelectValue placeholder="Select state" />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      {US_STATES.map(state => (
+                                        <SelectItem key={state.code} value={state.code}>{state.name}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
                                   <FormMessage />
                                 </FormItem>
                               )}
@@ -1090,9 +898,10 @@ const Checkout = () => {
                               type="button"
                               variant="outline"
                               onClick={applyCouponCode}
+                              disabled={isApplyingCoupon}
                               className="h-12 px-8 border-2 border-primary text-primary hover:bg-primary hover:text-white rounded-xl font-semibold transition-all"
                             >
-                              Apply Code
+                              {isApplyingCoupon ? <Loader2 className="h-5 w-5 animate-spin" /> : 'Apply Code'}
                             </Button>
                           </div>
                         ) : (
@@ -1103,7 +912,7 @@ const Checkout = () => {
                               </div>
                               <div>
                                 <span className="font-bold text-green-800">{appliedCoupon}</span>
-                                <span className="text-green-700 ml-2">({couponDiscount}% discount applied)</span>
+                                <span className="text-green-700 ml-2">({getPricing().discountLabel || 'not applicable to this order'})</span>
                               </div>
                             </div>
                             <Button
@@ -1209,11 +1018,72 @@ const Checkout = () => {
                       </div>
                       
                       <div className="space-y-6">
+                        {paymentDecline && (
+                          <div role="alert" className="flex items-start gap-3 p-4 rounded-xl bg-red-50 border border-red-100">
+                            <AlertCircle size={20} className="text-red-600 shrink-0 mt-0.5" />
+                            <div className="flex-1">
+                              <div className="font-semibold text-red-800">{DECLINE_GUIDANCE[paymentDecline].title}</div>
+                              <p className="text-sm text-red-700 mt-1">{DECLINE_GUIDANCE[paymentDecline].guidance}</p>
+                              <p className="text-xs text-red-600 mt-2">You have not been charged. Your shipping details are saved.</p>
+                            </div>
+                            <Button
+                              type="button"
+                              variant={DECLINE_GUIDANCE[paymentDecline].sameCardRetry ? 'ghost' : 'outline'}
+                              size="sm"
+                              onClick={enterDifferentCard}
+                              disabled={isProcessing}
+                              className="shrink-0"
+                            >
+                              Use a different card
+                            </Button>
+                          </div>
+                        )}
+
+                        {!savedCards && (
+                          <SavedCardLogin
+                            email={validatedFormData.email}
+                            disabled={isProcessing}
+                            onVerified={(cards, token) => {
+                              setSavedCards(cards);
+                              setCardAccessToken(token);
+                            }}
+                          />
+                        )}
+
                         <SquarePayment 
+                          key={cardFormKey}
                           onSuccess={handlePaymentSuccess}
                           buttonColorClass={getButtonClass()}
                           isProcessing={isProcessing}
                           amount={`$${calculateTotal()}`}
+                          pricing={getPricing()}
+                          giftCardSplit={giftCardSplit}
+                          onGiftCardRemoved={() => setGiftCardSplit(null)}
+                          savedCards={savedCards ?? undefined}
+                          allowSaveCard
+                          billingContact={{
+                            givenName: validatedFormData.firstName,
+                            familyName: validatedFormData.lastName,
+                            email: validatedFormData.email,
+                            phone: validatedFormData.phone,
+                            addressLines: [validatedFormData.address],
+                            city: validatedFormData.city,
+                            state: validatedFormData.state,
+                            postalCode: validatedFormData.zipCode,
+                            countryCode: 'US'
+                          }}
+                        />
+
+                        <div className="flex items-center gap-3 text-sm text-gray-400">
+                          <div className="flex-1 border-t border-gray-100" />
+                          <span>or</span>
+                          <div className="flex-1 border-t border-gray-100" />
+                        </div>
+
+                        <PayPalPayment
+                          createOrder={createPayPalOrder}
+                          onApprove={approvePayPalOrder}
+                          isProcessing={isProcessing}
                         />
                         
                         <div className="flex items-center justify-center gap-2 text-sm text-gray-500 pt-4 border-t border-gray-100">
@@ -1251,20 +1121,20 @@ const Checkout = () => {
                             </span>
                           )}
                         </div>
-                        <span className="font-bold text-xl text-gray-900">{packageDetails.price}</span>
+                        <span className="font-bold text-xl text-gray-900">{formatPackagePrice(packageDetails)}</span>
                       </div>
                       <p className="text-sm text-gray-600 mb-4">{packageDetails.description}</p>
                       
                       <div className="space-y-2">
-                        {packageDetails.features.slice(0, 3).map((feature, index) => (
+                        {packageFeatures.slice(0, 3).map((feature, index) => (
                           <div key={index} className="flex items-start gap-2">
                             <Check size={16} className={`${getTextColorClass()} mt-0.5 shrink-0`} />
                             <span className="text-sm text-gray-700">{feature}</span>
                           </div>
                         ))}
-                        {packageDetails.features.length > 3 && (
+                        {packageFeatures.length > 3 && (
                           <div className="text-sm text-primary font-medium">
-                            + {packageDetails.features.length - 3} more features included
+                            + {packageFeatures.length - 3} more features included
                           </div>
                         )}
                       </div>
@@ -1311,7 +1181,7 @@ const Checkout = () => {
                         </div>
                         {usbDrives > 0 && (
                           <div className="flex justify-between text-sm text-gray-600 bg-gray-50 p-2 rounded-lg">
-                            <span>{usbDrives} × $24.95</span>
+                            <span>{usbDrives} × ${USB_DRIVE_PRICE.toFixed(2)}</span>
                             <span className="font-semibold">${(usbDrives * USB_DRIVE_PRICE).toFixed(2)}</span>
                           </div>
                         )}
@@ -1391,19 +1261,27 @@ const Checkout = () => {
                         <span>Subtotal</span>
                         <span className="font-semibold">${calculateSubtotal().toFixed(2)}</span>
                       </div>
-                      {appliedCoupon && (
+                      {appliedCoupon && getPricing().discountAmount > 0 && (
                         <div className="flex justify-between text-green-600">
                           <span className="flex items-center gap-2">
                             <Tag size={16} />
-                            {appliedCoupon} ({couponDiscount}% off)
+                            {appliedCoupon} ({getPricing().discountLabel})
                           </span>
-                          <span className="font-semibold">-${(calculateSubtotal() * (couponDiscount / 100)).toFixed(2)}</span>
+                          <span className="font-semibold">-${getPricing().discountAmount.toFixed(2)}</span>
                         </div>
                       )}
                       <div className="flex justify-between text-gray-700">
                         <span>Shipping</span>
                         <span className="text-green-600 font-semibold">Free</span>
                       </div>
+                      <div className="flex justify-between text-gray-700">
+                        <span>{getPricing().taxLabel || 'Sales Tax'}</span>
+                        {validatedFormData ? (
+                          <span className="font-semibold">${getPricing().taxAmount.toFixed(2)}</span>
+                        ) : (
+                          <span className="text-sm text-gray-500">Calculated after shipping address</span>
+                        )}
+                      </div>
                     </div>
                     
                     {/* Enhanced Total */}
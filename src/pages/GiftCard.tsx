@@ -0,0 +1,333 @@
+import { useState } from 'react';
+import { toast } from "sonner";
+import { Gift, Check, ArrowRight } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import NavBar from '@/components/NavBar';
+import Footer from '@/components/Footer';
+import SEOHelmet from '@/components/SEOHelmet';
+import SquarePayment, { type PaymentExtras, type PaymentSummary } from '@/components/SquarePayment';
+import { DEFAULT_PACKAGE, GIFT_CARD, PACKAGES, formatPackageAllowance, formatPackagePrice } from '@/utils/catalog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+
+const giftFormSchema = z.object({
+  packageSlug: z.string(),
+  firstName: z.string().min(2, "First name must be at least 2 characters"),
+  lastName: z.string().min(2, "Last name must be at least 2 characters"),
+  email: z.string().email("Please enter a valid email address"),
+  recipientName: z.string().min(2, "Please enter the recipient's name"),
+  recipientEmail: z.string().email("Please enter a valid email address"),
+  message: z.string().max(500, "Messages can be up to 500 characters").optional()
+});
+
+type GiftFormState = z.infer<typeof giftFormSchema>;
+
+const inputClassName = "h-12 border-2 border-gray-200 rounded-xl focus:border-primary focus:ring-0 transition-colors";
+
+const GiftCard = () => {
+  const form = useForm<GiftFormState>({
+    resolver: zodResolver(giftFormSchema),
+    defaultValues: {
+      packageSlug: DEFAULT_PACKAGE.slug,
+      firstName: '',
+      lastName: '',
+      email: '',
+      recipientName: '',
+      recipientEmail: '',
+      message: ''
+    },
+  });
+
+  const [validatedGift, setValidatedGift] = useState<GiftFormState | null>(null);
+  // Identifies this purchase to the server so retries and double submits are deduplicated
+  const [checkoutSessionId, setCheckoutSessionId] = useState<string | null>(null);
+  const [paymentAttempt, setPaymentAttempt] = useState(1);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [purchased, setPurchased] = useState<{ amount: number; recipientEmail: string } | null>(null);
+
+  const selectedPackage = PACKAGES.find(pkg => pkg.slug === (validatedGift?.packageSlug || form.watch('packageSlug'))) || DEFAULT_PACKAGE;
+
+  const paymentSummary: PaymentSummary = {
+    lineItems: [{
+      catalogKey: GIFT_CARD.key,
+      name: `${GIFT_CARD.name} - ${selectedPackage.name} Package`,
+      quantity: 1,
+      unitPrice: selectedPackage.price,
+      lineTotal: selectedPackage.price
+    }],
+    total: selectedPackage.price,
+    discountAmount: 0
+  };
+
+  const onSubmit = (values: GiftFormState) => {
+    setValidatedGift(values);
+    setCheckoutSessionId(current => current || crypto.randomUUID());
+  };
+
+  const handlePaymentSuccess = async (token: string | null, details: unknown, extras: PaymentExtras = {}) => {
+    if (!validatedGift || !checkoutSessionId || !token) return;
+    setIsProcessing(true);
+
+    try {
+      const response = await fetch('/api/purchase-gift-card', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          token,
+          verificationToken: extras.verificationToken,
+          checkoutSessionId,
+          paymentAttempt,
+          packageType: validatedGift.packageSlug,
+          purchaser: {
+            firstName: validatedGift.firstName,
+            lastName: validatedGift.lastName,
+            email: validatedGift.email
+          },
+          recipient: {
+            name: validatedGift.recipientName,
+            email: validatedGift.recipientEmail
+          },
+          message: validatedGift.message || undefined
+        }),
+      });
+
+      const result = await response.json();
+      if (!result.success) {
+        // The next submit is a new attempt (e.g. with another card)
+        setPaymentAttempt(attempt => attempt + 1);
+        throw new Error(result.error || 'Payment failed');
+      }
+
+      setPurchased({ amount: result.amount, recipientEmail: result.recipientEmail });
+      toast.success("Gift purchased!", {
+        description: "Thank you! A confirmation is on its way.",
+        position: "top-center",
+      });
+    } catch (error) {
+      console.error('🎁 GIFT CARD ERROR:', error);
+      toast.error("Payment failed", {
+        description: error.message || "Please try again or use a different card",
+        position: "top-center",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const renderForm = () => (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+        <FormField
+          control={form.control}
+          name="packageSlug"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-sm font-semibold text-gray-700">Gift value</FormLabel>
+              <FormControl>
+                <RadioGroup value={field.value} onValueChange={field.onChange} className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {PACKAGES.map(pkg => (
+                    <label
+                      key={pkg.slug}
+                      htmlFor={`gift-${pkg.slug}`}
+                      className={`flex items-start gap-3 p-4 rounded-xl border-2 cursor-pointer transition-colors ${
+                        field.value === pkg.slug ? 'border-primary bg-primary/5' : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      <RadioGroupItem value={pkg.slug} id={`gift-${pkg.slug}`} className="mt-1" />
+                      <div>
+                        <div className="font-semibold text-gray-900">{pkg.name} — {formatPackagePrice(pkg)}</div>
+                        <div className="text-sm text-gray-500">{formatPackageAllowance(pkg)}</div>
+                      </div>
+                    </label>
+                  ))}
+                </RadioGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="recipientName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm font-semibold text-gray-700">Recipient Name *</FormLabel>
+                <FormControl>
+                  <Input {...field} className={inputClassName} placeholder="Who is this gift for?" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="recipientEmail"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm font-semibold text-gray-700">Recipient Email *</FormLabel>
+                <FormControl>
+                  <Input {...field} type="email" className={inputClassName} placeholder="We'll send the gift card here" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="message"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel className="text-sm font-semibold text-gray-700">Personal Message</FormLabel>
+                <FormControl>
+                  <Textarea {...field} rows={4} className="border-2 border-gray-200 rounded-xl focus:border-primary focus:ring-0" placeholder="Add a note to go with your gift (optional)" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="firstName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm font-semibold text-gray-700">Your First Name *</FormLabel>
+                <FormControl>
+                  <Input {...field} className={inputClassName} placeholder="Enter your first name" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="lastName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-sm font-semibold text-gray-700">Your Last Name *</FormLabel>
+                <FormControl>
+                  <Input {...field} className={inputClassName} placeholder="Enter your last name" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel className="text-sm font-semibold text-gray-700">Your Email Address *</FormLabel>
+                <FormControl>
+                  <Input {...field} type="email" className={inputClassName} placeholder="For your receipt" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <Button type="submit" className="w-full h-14 bg-primary hover:bg-primary/90 text-white font-semibold text-lg rounded-xl flex items-center justify-center gap-3">
+          Continue to Payment
+          <ArrowRight className="h-5 w-5" />
+        </Button>
+      </form>
+    </Form>
+  );
+
+  const renderPayment = () => (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4 p-4 rounded-xl bg-gray-50 border border-gray-100">
+        <div>
+          <div className="font-semibold text-gray-900">{selectedPackage.name} Package gift for {validatedGift.recipientName}</div>
+          <div className="text-sm text-gray-500">Sent to {validatedGift.recipientEmail}</div>
+        </div>
+        <Button variant="ghost" onClick={() => setValidatedGift(null)} disabled={isProcessing} className="text-primary">
+          Edit
+        </Button>
+      </div>
+
+      <SquarePayment
+        onSuccess={handlePaymentSuccess}
+        buttonColorClass="bg-primary hover:bg-primary/90 text-white"
+        isProcessing={isProcessing}
+        amount={formatPackagePrice(selectedPackage)}
+        pricing={paymentSummary}
+        allowGiftCard={false}
+        billingContact={{
+          givenName: validatedGift.firstName,
+          familyName: validatedGift.lastName,
+          email: validatedGift.email,
+          countryCode: 'US'
+        }}
+      />
+    </div>
+  );
+
+  const renderConfirmation = () => (
+    <div className="text-center space-y-4 py-8">
+      <div className="w-16 h-16 mx-auto bg-green-100 text-green-600 flex items-center justify-center rounded-full">
+        <Check size={32} />
+      </div>
+      <h2 className="text-2xl font-bold text-gray-900">Your gift is on its way</h2>
+      <p className="text-gray-600">
+        We'll email a ${purchased.amount.toFixed(2)} HeritageBox gift card and your message to {purchased.recipientEmail}.
+        They can redeem it at checkout.
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-br from-gray-50 via-white to-gray-50">
+      <SEOHelmet
+        title="Gift a HeritageBox® | Digitization Gift Cards"
+        description="Give the gift of preserved memories. Send a HeritageBox gift card worth any of our digitization packages with a personal message."
+        keywords="heritagebox gift card, memory digitization gift, photo scanning gift, vhs conversion gift"
+        canonical="https://heritagebox.com/gift"
+      />
+      <NavBar />
+
+      <main className="flex-grow pt-20 md:pt-24">
+        <div className="container mx-auto px-4 py-8 md:py-12">
+          <div className="max-w-2xl mx-auto">
+            <div className="text-center mb-8 md:mb-12">
+              <div className="inline-flex items-center gap-2 bg-secondary/10 text-secondary px-4 py-2 rounded-full text-sm font-medium mb-4">
+                <Gift className="w-4 h-4" />
+                {GIFT_CARD.name}
+              </div>
+              <h1 className="text-3xl md:text-5xl font-bold mb-4 text-gray-900">
+                Give the Gift of Memories
+              </h1>
+              <p className="text-gray-600">
+                Choose a package and we'll send a gift card for its full value, with your message, to someone you love.
+              </p>
+            </div>
+
+            <div className="bg-white rounded-3xl p-6 md:p-8 shadow-sm border border-gray-100">
+              {purchased ? renderConfirmation() : validatedGift ? renderPayment() : renderForm()}
+            </div>
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default GiftCard;
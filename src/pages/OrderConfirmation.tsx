@@ -4,9 +4,8 @@ import NavBar from '@/components/NavBar';
 import Footer from '@/components/Footer';
 import { Check, Package } from 'lucide-react';
 import { useEffect, useState } from 'react';
-import { sendOrderConfirmationToBrevo } from '@/utils/brevoUtils';
 import { getDigitizingOptionById } from '@/lib/utils';
-import { toast } from 'sonner';
+import type { PriceBreakdown } from '@/utils/pricing';
 
 // Declare gtag function for TypeScript
 declare global {
@@ -15,45 +14,19 @@ declare global {
   }
 }
 
-// Function to generate sequential order number as fallback
-const generateOrderNumber = () => {
-  const baseNumber = 13405;
-  const storedCount = localStorage.getItem('hb_order_count');
-  const currentCount = storedCount ? parseInt(storedCount) : 0;
-  const newCount = currentCount + 1;
-  localStorage.setItem('hb_order_count', newCount.toString());
-  return `HB${(baseNumber + newCount - 1).toString().padStart(5, '0')}`;
-};
-
 const OrderConfirmation = () => {
   const [searchParams] = useSearchParams();
   const location = useLocation();
   const packageType = searchParams.get('package') || 'Popular';
   const usbDrives = parseInt(searchParams.get('usbDrives') || '0', 10);
   const digitizingSpeed = searchParams.get('digitizingSpeed') || 'standard';
-  const [emailSent, setEmailSent] = useState(false);
   const [conversionTracked, setConversionTracked] = useState(false);
   
-  // Get customer info and order number from state if available (passed from checkout)
-  const customerInfo = location.state?.customerInfo || {
-    firstName: '',
-    lastName: '',
-    email: ''
-  };
-  
-  const passedOrderNumber = location.state?.orderNumber;
+  // Issued by the server when the payment was taken
+  const orderNumber: string | undefined = location.state?.orderNumber;
   
-  // Use the passed order number if available, otherwise generate a fallback
-  const [orderNumber] = useState(() => {
-    if (passedOrderNumber) {
-      console.log('✅ ORDER CONFIRMATION - Using passed order number:', passedOrderNumber);
-      return passedOrderNumber;
-    } else {
-      const fallbackOrder = generateOrderNumber();
-      console.log('⚠️ ORDER CONFIRMATION - No order number passed, generating fallback:', fallbackOrder);
-      return fallbackOrder;
-    }
-  });
+  // Server-computed price breakdown of what was actually charged
+  const pricing: PriceBreakdown | undefined = location.state?.pricing;
   
   // Get button color class based on package type
   const getButtonClass = () => {
@@ -86,7 +59,7 @@ const OrderConfirmation = () => {
 
   // Track Google Ads conversion
   useEffect(() => {
-    if (conversionTracked) return;
+    if (conversionTracked || !orderNumber) return;
 
     // Fire the conversion event
     if (window.gtag) {
@@ -102,49 +75,6 @@ const OrderConfirmation = () => {
     }
   }, [orderNumber, conversionTracked]);
 
-  // Send order data to Brevo
-  useEffect(() => {
-    if (emailSent) return;
-
-    // Get digitizing option details
-    const digitizingOption = getDigitizingOptionById(digitizingSpeed);
-    
-    const sendOrderData = async () => {
-      try {
-        if (!customerInfo.email) {
-          console.log('No customer email available, skipping Brevo notification');
-          return;
-        }
-
-        const orderData = {
-          orderNumber,
-          orderDate: new Date().toLocaleDateString(),
-          packageType,
-          usbDrives,
-          digitizingSpeed: digitizingOption.name,
-          speedTime: digitizingOption.time,
-          speedPrice: digitizingOption.price
-        };
-
-        const customerName = `${customerInfo.firstName} ${customerInfo.lastName}`.trim();
-        
-        await sendOrderConfirmationToBrevo(
-          customerInfo.email,
-          customerName || 'Valued Customer',
-          orderData
-        );
-        
-        setEmailSent(true);
-        console.log('Order confirmation sent to Brevo');
-      } catch (error) {
-        console.error('Failed to send order data to Brevo:', error);
-        toast.error('Could not send order confirmation email');
-      }
-    };
-
-    sendOrderData();
-  }, [packageType, usbDrives, digitizingSpeed, emailSent, customerInfo, orderNumber]);
-
   return (
     <div className="min-h-screen flex flex-col">
       <NavBar />
@@ -170,7 +100,7 @@ const OrderConfirmation = () => {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-left">
                 <div>
                   <p className="text-gray-500 mb-1">Order Number:</p>
-                  <p className="font-semibold">{orderNumber}</p>
+                  <p className="font-semibold">{orderNumber || 'See your confirmation email'}</p>
                 </div>
                 <div>
                   <p className="text-gray-500 mb-1">Order Date:</p>
@@ -200,6 +130,37 @@ const OrderConfirmation = () => {
                 )}
               </div>
               
+              {pricing && (
+                <div className="border-t border-gray-200 my-6 pt-6 text-left space-y-2">
+                  {pricing.lineItems.map((line) => (
+                    <div key={line.catalogKey} className="flex justify-between text-gray-700">
+                      <span>{line.name}{line.quantity > 1 ? ` × ${line.quantity}` : ''}</span>
+                      <span>${line.lineTotal.toFixed(2)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between text-gray-700">
+                    <span>Subtotal</span>
+                    <span>${pricing.subtotal.toFixed(2)}</span>
+                  </div>
+                  {pricing.discountAmount > 0 && (
+                    <div className="flex justify-between text-green-600">
+                      <span>{pricing.couponCode} ({pricing.discountPercent}% off)</span>
+                      <span>-${pricing.discountAmount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {pricing.taxAmount > 0 && (
+                    <div className="flex justify-between text-gray-700">
+                      <span>{pricing.taxLabel || 'Sales Tax'}</span>
+                      <span>${pricing.taxAmount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between font-bold text-lg pt-2 border-t border-gray-100">
+                    <span>Total Charged</span>
+                    <span>${pricing.total.toFixed(2)}</span>
+                  </div>
+                </div>
+              )}
+              
               <div className="border-t border-gray-200 my-6 pt-6">
                 <h3 className="text-xl font-semibold mb-4">What Happens Next?</h3>
                 <ul className="space-y-4 text-left">
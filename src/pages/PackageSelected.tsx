@@ -6,87 +6,14 @@ import Footer from '@/components/Footer';
 import { Check, ArrowRight, Star, Gift, Clock, Shield, Truck } from 'lucide-react';
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { toast } from "sonner";
+import { PACKAGES, findPackageByName, formatPackagePrice } from '@/utils/catalog';
 
 const PackageSelected = () => {
   const [searchParams] = useSearchParams();
   const packageType = searchParams.get('package') || 'Popular';
   
-  // Define all packages
-  const allPackages = [
-    {
-      name: "Starter",
-      price: "$69",
-      description: "Perfect for a small collection of memories",
-      color: "primary",
-      tapeCount: "3",
-      photoCount: "75",
-      features: [
-        "High-quality digital conversion",
-        "Online access to digital files",
-        "Free shipping both ways",
-        "Online Backup (1 Year Free)",
-        "Professional quality guarantee"
-      ]
-    },
-    {
-      name: "Popular",
-      price: "$179",
-      description: "Our most popular package for families",
-      color: "secondary",
-      tapeCount: "10",
-      photoCount: "250",
-      popular: true,
-      features: [
-        "High-quality digital conversion", 
-        "Online access to digital files",
-        "Free shipping both ways",
-        "Online Backup (1 Year Free)",
-        "Professional quality guarantee",
-        "Priority processing"
-      ]
-    },
-    {
-      name: "Dusty Rose",
-      price: "$349",
-      description: "Great for larger collections",
-      color: "rose-dark",
-      tapeCount: "20",
-      photoCount: "500",
-      features: [
-        "High-quality digital conversion",
-        "Online access to digital files",
-        "Free shipping both ways",
-        "Online Backup (1 Year Free)",
-        "Professional quality guarantee",
-        "Priority processing"
-      ]
-    },
-    {
-      name: "Eternal",
-      price: "$599",
-      description: "For preserving a lifetime of memories",
-      color: "primary-light",
-      tapeCount: "40",
-      photoCount: "1000",
-      features: [
-        "High-quality digital conversion",
-        "Online access to digital files",
-        "Free shipping both ways",
-        "Online Backup (1 Year Free)",
-        "Professional quality guarantee",
-        "Priority processing",
-        "Dedicated support specialist"
-      ]
-    }
-  ];
-  
-  // Function to get the currently selected package details
-  const getPackageDetails = () => {
-    const selectedPackage = allPackages.find(pkg => pkg.name === packageType);
-    return selectedPackage || allPackages[1]; // Default to Popular if not found
-  };
-
-  const packageDetails = getPackageDetails();
+  // Packages come from the shared catalog
+  const packageDetails = findPackageByName(packageType);
   
   // Get background color class based on package type
   const getBgColorClass = () => {
@@ -233,7 +160,7 @@ const PackageSelected = () => {
                   <div className="text-center lg:text-right">
                     <div className="bg-white rounded-2xl p-6 shadow-lg border border-gray-100">
                       <p className="text-gray-600 mb-2">Total Price</p>
-                      <span className="text-5xl md:text-6xl font-bold text-gray-900">{packageDetails.price}</span>
+                      <span className="text-5xl md:text-6xl font-bold text-gray-900">{formatPackagePrice(packageDetails)}</span>
                       <p className="text-gray-500 mt-1">one-time payment</p>
                       
                       {/* Primary CTA */}
@@ -279,7 +206,7 @@ const PackageSelected = () => {
             </div>
             
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-              {allPackages.map((pkg) => (
+              {PACKAGES.map((pkg) => (
                 <Link
                   key={pkg.name}
                   to={`/package-selected?package=${encodeURIComponent(pkg.name)}`}
@@ -313,7 +240,7 @@ const PackageSelected = () => {
                       }`}>
                         {pkg.name}
                       </h3>
-                      <p className="text-3xl font-bold text-gray-900">{pkg.price}</p>
+                      <p className="text-3xl font-bold text-gray-900">{formatPackagePrice(pkg)}</p>
                       <div className="text-sm text-gray-600 mt-2 leading-tight">
                         Up to {pkg.tapeCount} tapes OR {pkg.photoCount} photos
                       </div>
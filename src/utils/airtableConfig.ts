@@ -0,0 +1,17 @@
+// Airtable base and table configuration for the HBOX2 normalized database.
+// Shared by the browser helpers in airtableUtils.ts and the API routes.
+export const AIRTABLE_BASE_ID = 'appFMHAYZrTskpmdX';
+
+export const TABLES = {
+  CUSTOMERS: 'tblUS7uf11axEmL56',
+  PRODUCTS: 'tblJ0hgzvDXWgQGmK',
+  ORDERS: 'tblTq25QawVDHTTkV',
+  ORDER_ITEMS: 'tblgV4XGeQE3VL9CW',
+  PROMO_REDEMPTIONS: 'Promo Redemptions',
+  WEBHOOK_EVENTS: 'Webhook Events',
+  ORDER_NUMBERS: 'Order Numbers',
+  GIFT_CARDS: 'Gift Cards',
+  PAYMENT_ATTEMPTS: 'Payment Attempts',
+  OUTBOX_JOBS: 'Outbox Jobs',
+  CARD_ACCESS_CODES: 'Card Access Codes'
+};
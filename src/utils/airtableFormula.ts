@@ -0,0 +1,63 @@
+// Small builder for Airtable filterByFormula expressions. Values always go
+// through str() so user input can never close the string literal and inject
+// formula code. Used by every Airtable search, in the browser and on the server.
+
+export type Formula = string;
+
+// Quote a value as a formula string literal
+export function str(value: string): Formula {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n');
+  return `"${escaped}"`;
+}
+
+// Reference a field by name. Field names come from code, never from input.
+export function field(name: string): Formula {
+  if (/[{}]/.test(name)) {
+    throw new Error(`Invalid Airtable field name: ${name}`);
+  }
+  return `{${name}}`;
+}
+
+export function eq(left: Formula, right: Formula): Formula {
+  return `${left} = ${right}`;
+}
+
+export function lower(expression: Formula): Formula {
+  return `LOWER(${expression})`;
+}
+
+export function trim(expression: Formula): Formula {
+  return `TRIM(${expression})`;
+}
+
+// AND()/OR() of the given conditions; a single condition is returned as is
+export function and(...conditions: Formula[]): Formula {
+  return conditions.length === 1 ? conditions[0] : `AND(${conditions.join(', ')})`;
+}
+
+export function or(...conditions: Formula[]): Formula {
+  return conditions.length === 1 ? conditions[0] : `OR(${conditions.join(', ')})`;
+}
+
+// {Field} = "value"
+export function fieldEquals(name: string, value: string): Formula {
+  return eq(field(name), str(value));
+}
+
+// Emails are compared trimmed and lower-cased so "A@B.com " matches "a@b.com"
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// {Field} is after the given ISO date and time
+export function isAfter(name: string, isoDate: string): Formula {
+  return `IS_AFTER(${field(name)}, ${str(isoDate)})`;
+}
+
+export function emailEquals(name: string, email: string): Formula {
+  return eq(lower(trim(field(name))), str(normalizeEmail(email)));
+}
@@ -1,14 +1,9 @@
 // Airtable integration using MCP server for HBOX2 normalized database
 import { SQUARE_CATALOG_ITEMS } from './squareIntegration.js';
-
-// Base and table configuration
-const AIRTABLE_BASE_ID = 'appFMHAYZrTskpmdX';
-const TABLES = {
-  CUSTOMERS: 'tblUS7uf11axEmL56',
-  PRODUCTS: 'tblJ0hgzvDXWgQGmK',
-  ORDERS: 'tblTq25QawVDHTTkV',
-  ORDER_ITEMS: 'tblgV4XGeQE3VL9CW'
-};
+import { AIRTABLE_BASE_ID, TABLES } from './airtableConfig.js';
+import { getCatalogDescription, type CatalogKey } from './catalog.js';
+import { allocateDiscountCents, fromCents, toCents, type PricedLineItem } from './pricing.js';
+import { emailEquals, normalizeEmail } from './airtableFormula.js';
 
 // Interfaces for our normalized database
 export interface Customer {
@@ -51,6 +46,8 @@ export interface OrderItem {
 }
 
 export interface OrderData {
+  orderNumber?: string; // Issued by the server allocator
+  checkoutSessionId?: string; // Identifies retries of the same checkout
   customerInfo: {
     firstName: string;
     lastName: string;
@@ -71,16 +68,63 @@ export interface OrderData {
     totalAmount: number;
     discountCode?: string;
     discountAmount?: number;
+    taxAmount?: number; // Sales tax included in totalAmount
+    lineItems?: PricedLineItem[]; // Quantities and prices as charged
   };
-  paymentDetails?: {
-    paymentId?: string;
-    squareOrderId?: string;
-    squareCustomerId?: string;
-  };
+  paymentDetails?: PaymentDetails;
+}
+
+// Square and PayPal references stored on the Orders table
+export interface PaymentDetails {
+  paymentId?: string;
+  squareOrderId?: string;
+  squareCustomerId?: string;
+  cardBrand?: string;
+  cardLast4?: string;
+  receiptUrl?: string;
+  paypalOrderId?: string;
+  paypalCaptureId?: string;
+  giftCardPaymentId?: string;
+  giftCardAmount?: number; // Part of the total paid by gift card
+}
+
+// Orders table fields for the payment references that are known
+export function buildPaymentFields(paymentDetails?: PaymentDetails): Record<string, string | number> {
+  const fields: Record<string, string | number> = {};
+  if (!paymentDetails) return fields;
+
+  if (paymentDetails.paymentId) fields['Square Payment ID'] = paymentDetails.paymentId;
+  if (paymentDetails.squareOrderId) fields['Square Order ID'] = paymentDetails.squareOrderId;
+  if (paymentDetails.squareCustomerId) fields['Square Customer ID'] = paymentDetails.squareCustomerId;
+  if (paymentDetails.cardBrand) fields['Card Brand'] = paymentDetails.cardBrand;
+  if (paymentDetails.cardLast4) fields['Card Last 4'] = paymentDetails.cardLast4;
+  if (paymentDetails.receiptUrl) fields['Receipt URL'] = paymentDetails.receiptUrl;
+  if (paymentDetails.paypalOrderId) fields['PayPal Order ID'] = paymentDetails.paypalOrderId;
+  if (paymentDetails.paypalCaptureId) fields['PayPal Capture ID'] = paymentDetails.paypalCaptureId;
+  if (paymentDetails.giftCardPaymentId) fields['Gift Card Payment ID'] = paymentDetails.giftCardPaymentId;
+  if (paymentDetails.giftCardAmount) fields['Gift Card Amount'] = paymentDetails.giftCardAmount;
+  return fields;
+}
+
+// Transport used for record-level Airtable operations. These only run on the
+// server, which installs a direct transport with configureAirtableTransport();
+// the browser is limited to the domain operations of /api/airtable-operations.
+export type AirtableTransport = typeof callAirtableEndpoint;
+
+let airtableTransport: AirtableTransport = async (operation: string) => {
+  throw new Error(`Airtable operation ${operation} is only available on the server`);
+};
+
+export function configureAirtableTransport(transport: AirtableTransport): void {
+  airtableTransport = transport;
+}
+
+function callAirtableMCP(operation: string, args: any) {
+  return airtableTransport(operation, args);
 }
 
-// Helper function to make Airtable API calls through our endpoint
-async function callAirtableMCP(operation: string, args: any) {
+// Helper function to call a domain operation on our endpoint
+async function callAirtableEndpoint(operation: string, args: any) {
   try {
     console.log(`📊 AIRTABLE API - Calling ${operation} with args:`, args);
     
@@ -95,13 +139,9 @@ async function callAirtableMCP(operation: string, args: any) {
       }),
     });
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+    const result = await response.json().catch(() => ({}));
 
-    const result = await response.json();
-    
-    if (!result.success) {
+    if (!response.ok || !result.success) {
       throw new Error(result.error || 'Airtable operation failed');
     }
 
@@ -113,16 +153,100 @@ async function callAirtableMCP(operation: string, args: any) {
   }
 }
 
+// Record fields, shared by the Airtable functions below and the local order
+// store used for offline development (api/_lib/localOrderRepository.ts)
+
+export function buildCustomerFields(customerInfo: OrderData['customerInfo']): Record<string, unknown> {
+  const fullName = `${customerInfo.firstName} ${customerInfo.lastName}`.trim();
+  const shippingAddress = customerInfo.address ? 
+    `${customerInfo.address.address_line_1 || ''}\n${customerInfo.address.address_line_2 || ''}\n${customerInfo.address.locality || ''}, ${customerInfo.address.administrative_district_level_1 || ''} ${customerInfo.address.postal_code || ''}`.trim() : '';
+
+  return {
+    'Name': fullName,
+    'Email': normalizeEmail(customerInfo.email),
+    'Phone': customerInfo.phone || '',
+    'Shipping Address': shippingAddress,
+    'Status': 'Todo'
+  };
+}
+
+export const getProductSku = (key: string) => `HB-${key.toUpperCase()}`;
+
+export function buildProductFields(key: string): Record<string, unknown> {
+  const item = SQUARE_CATALOG_ITEMS[key as keyof typeof SQUARE_CATALOG_ITEMS];
+  return {
+    'Product Name': item.name,
+    'Description': getCatalogDescription(key as CatalogKey),
+    'Price': item.price,
+    'SKU': getProductSku(key),
+    'Stock Quantity': 999 // Digital products have unlimited stock
+  };
+}
+
+export function buildOrderFields(orderData: OrderData, customerRecordId: string): Record<string, unknown> {
+  return {
+    'Order Number': orderData.orderNumber,
+    'Customer': [customerRecordId],
+    'Order Date': new Date().toISOString().split('T')[0], // YYYY-MM-DD format
+    'Status': 'Pending',
+    'Total Amount': orderData.orderDetails.totalAmount,
+    'Promo Code': orderData.orderDetails.discountCode || '',
+    'Tax Amount': orderData.orderDetails.taxAmount || 0,
+    'Checkout Session ID': orderData.checkoutSessionId || '',
+    ...buildPaymentFields(orderData.paymentDetails)
+  };
+}
+
+// One order item for the main package, then one per add-on. Products missing
+// from productMap are skipped; any discount is spread across the items in
+// proportion to their line totals.
+export function buildOrderItemFields(
+  orderRecordId: string,
+  orderData: OrderData,
+  productMap: Map<string, string>
+): Record<string, unknown>[] {
+  const { packageType, addOns, discountCode, discountAmount } = orderData.orderDetails;
+
+  // Prefer the priced lines from the payment handler so quantities (e.g. USB drives) are kept
+  const getLine = (key: string) => {
+    const line = orderData.orderDetails.lineItems?.find(item => item.catalogKey === key);
+    const price = SQUARE_CATALOG_ITEMS[key as keyof typeof SQUARE_CATALOG_ITEMS].price;
+    return line || { quantity: 1, unitPrice: price, lineTotal: price };
+  };
+
+  const items = [
+    { key: packageType, itemId: `${orderRecordId}-PKG-${packageType}` },
+    ...addOns.map(key => ({ key, itemId: `${orderRecordId}-ADD-${key}` }))
+  ].filter(item => productMap.has(item.key));
+
+  const lines = items.map(item => getLine(item.key));
+  const lineCents = lines.map(line => toCents(line.lineTotal));
+  const discountCents = discountCode && discountAmount ? toCents(discountAmount) : 0;
+  const lineDiscounts = allocateDiscountCents(lineCents, discountCents)
+    .map((cents, index) => Math.min(Math.max(cents, 0), lineCents[index]));
+
+  return items.map((item, index) => ({
+    'Item ID': item.itemId,
+    'Order': [orderRecordId],
+    'Product': [productMap.get(item.key)],
+    'Quantity': lines[index].quantity,
+    'Unit Price': lines[index].unitPrice,
+    'Line Total': fromCents(lineCents[index] - lineDiscounts[index]),
+    'Discount Amount': fromCents(lineDiscounts[index])
+  }));
+}
+
 // Find or create customer by email
 export async function findOrCreateCustomer(customerInfo: OrderData['customerInfo']): Promise<{ recordId: string; isNew: boolean }> {
   try {
     console.log('📊 AIRTABLE - Finding or creating customer:', customerInfo.email);
 
-    // First, try to find existing customer by email
+    // First, try to find existing customer by email (case and whitespace insensitive)
     const existingCustomers = await callAirtableMCP('search_records', {
       baseId: AIRTABLE_BASE_ID,
       tableId: TABLES.CUSTOMERS,
-      filterByFormula: `{Email} = "${customerInfo.email}"`
+      filterByFormula: emailEquals('Email', customerInfo.email),
+      maxRecords: 1
     });
 
     if (existingCustomers.records && existingCustomers.records.length > 0) {
@@ -131,20 +255,10 @@ export async function findOrCreateCustomer(customerInfo: OrderData['customerInfo
     }
 
     // Customer not found, create new one
-    const fullName = `${customerInfo.firstName} ${customerInfo.lastName}`.trim();
-    const shippingAddress = customerInfo.address ? 
-      `${customerInfo.address.address_line_1 || ''}\n${customerInfo.address.address_line_2 || ''}\n${customerInfo.address.locality || ''}, ${customerInfo.address.administrative_district_level_1 || ''} ${customerInfo.address.postal_code || ''}`.trim() : '';
-
     const newCustomer = await callAirtableMCP('create_record', {
       baseId: AIRTABLE_BASE_ID,
       tableId: TABLES.CUSTOMERS,
-      fields: {
-        'Name': fullName,
-        'Email': customerInfo.email,
-        'Phone': customerInfo.phone || '',
-        'Shipping Address': shippingAddress,
-        'Status': 'Todo'
-      }
+      fields: buildCustomerFields(customerInfo)
     });
 
     console.log('✅ AIRTABLE - Created new customer:', newCustomer.id);
@@ -156,17 +270,32 @@ export async function findOrCreateCustomer(customerInfo: OrderData['customerInfo
   }
 }
 
+// Catalog key -> Products record ID, reused for a few minutes so every
+// checkout doesn't list the Products table again
+const PRODUCT_CACHE_TTL_MS = 5 * 60 * 1000;
+let productCache: { productMap: Map<string, string>; expiresAt: number } | null = null;
+
+export function clearProductCache(): void {
+  productCache = null;
+}
+
 // Ensure all products exist in the Products table
 export async function ensureProductsExist(): Promise<Map<string, string>> {
+  if (productCache && productCache.expiresAt > Date.now()) {
+    return new Map(productCache.productMap);
+  }
+
   try {
     console.log('📊 AIRTABLE - Ensuring products exist in catalog');
 
     const productMap = new Map<string, string>();
 
-    // Get existing products
+    // Get existing products (every page, so none are missed and duplicated)
     const existingProducts = await callAirtableMCP('list_records', {
       baseId: AIRTABLE_BASE_ID,
-      tableId: TABLES.PRODUCTS
+      tableId: TABLES.PRODUCTS,
+      fields: ['SKU'],
+      pageSize: 100
     });
 
     // Create a lookup map of existing products by SKU
@@ -179,37 +308,43 @@ export async function ensureProductsExist(): Promise<Map<string, string>> {
       });
     }
 
-    // Check/create each product from Square catalog
+    // Check each product from Square catalog; missing ones are created together
+    const missingKeys: string[] = [];
     for (const [key, item] of Object.entries(SQUARE_CATALOG_ITEMS)) {
-      const sku = `HB-${key.toUpperCase()}`;
+      const sku = getProductSku(key);
       
       if (existingProductsBySku.has(sku)) {
         // Product exists
         productMap.set(key, existingProductsBySku.get(sku));
         console.log(`✅ AIRTABLE - Product exists: ${item.name} (${sku})`);
       } else {
-        // Create product
-        try {
-          const newProduct = await callAirtableMCP('create_record', {
-            baseId: AIRTABLE_BASE_ID,
-            tableId: TABLES.PRODUCTS,
-            fields: {
-              'Product Name': item.name,
-              'Description': getProductDescription(key),
-              'Price': item.price,
-              'SKU': sku,
-              'Stock Quantity': 999 // Digital products have unlimited stock
-            }
-          });
-
-          productMap.set(key, newProduct.id);
-          console.log(`✅ AIRTABLE - Created product: ${item.name} (${sku})`);
-        } catch (error) {
-          console.error(`❌ AIRTABLE ERROR - Failed to create product ${item.name}:`, error);
-        }
+        missingKeys.push(key);
       }
     }
 
+    if (missingKeys.length > 0) {
+      try {
+        const created = await callAirtableMCP('create_records', {
+          baseId: AIRTABLE_BASE_ID,
+          tableId: TABLES.PRODUCTS,
+          records: missingKeys.map(key => ({ fields: buildProductFields(key) }))
+        });
+
+        // Records come back in the order they were sent
+        created.records.forEach((record: { id: string }, index: number) => {
+          productMap.set(missingKeys[index], record.id);
+        });
+        console.log(`✅ AIRTABLE - Created products: ${missingKeys.join(', ')}`);
+      } catch (error) {
+        console.error(`❌ AIRTABLE ERROR - Failed to create products ${missingKeys.join(', ')}:`, error);
+      }
+    }
+
+    // Only a complete map is cached; otherwise the next checkout tries again
+    if (productMap.size === Object.keys(SQUARE_CATALOG_ITEMS).length) {
+      productCache = { productMap: new Map(productMap), expiresAt: Date.now() + PRODUCT_CACHE_TTL_MS };
+    }
+
     return productMap;
 
   } catch (error) {
@@ -219,26 +354,22 @@ export async function ensureProductsExist(): Promise<Map<string, string>> {
 }
 
 // Create order record
-export async function createOrder(orderData: OrderData, customerRecordId: string): Promise<string> {
+export async function createOrder(orderData: OrderData, customerRecordId: string): Promise<{ recordId: string; orderNumber: string }> {
   try {
-    const orderNumber = generateOrderNumber();
+    const orderNumber = orderData.orderNumber;
+    if (!orderNumber) {
+      throw new Error('Order number has not been allocated');
+    }
     console.log('📊 AIRTABLE - Creating order:', orderNumber);
 
     const orderRecord = await callAirtableMCP('create_record', {
       baseId: AIRTABLE_BASE_ID,
       tableId: TABLES.ORDERS,
-      fields: {
-        'Order Number': orderNumber,
-        'Customer': [customerRecordId],
-        'Order Date': new Date().toISOString().split('T')[0], // YYYY-MM-DD format
-        'Status': 'Pending',
-        'Total Amount': orderData.orderDetails.totalAmount,
-        'Promo Code': orderData.orderDetails.discountCode || ''
-      }
+      fields: buildOrderFields(orderData, customerRecordId)
     });
 
     console.log('✅ AIRTABLE - Created order:', orderRecord.id);
-    return orderRecord.id;
+    return { recordId: orderRecord.id, orderNumber };
 
   } catch (error) {
     console.error('❌ AIRTABLE ERROR - Order creation failed:', error);
@@ -246,7 +377,7 @@ export async function createOrder(orderData: OrderData, customerRecordId: string
   }
 }
 
-// Create order items for packages and add-ons
+// Create order items for packages and add-ons in one batched write
 export async function createOrderItems(
   orderRecordId: string, 
   orderData: OrderData, 
@@ -254,72 +385,23 @@ export async function createOrderItems(
 ): Promise<string[]> {
   try {
     console.log('📊 AIRTABLE - Creating order items for order:', orderRecordId);
-    
-    const orderItemIds: string[] = [];
-
-    // Create item for main package
-    const packageProductId = productMap.get(orderData.orderDetails.packageType);
-    if (packageProductId) {
-      const packageItem = SQUARE_CATALOG_ITEMS[orderData.orderDetails.packageType as keyof typeof SQUARE_CATALOG_ITEMS];
-      const packageOrderItem = await callAirtableMCP('create_record', {
-        baseId: AIRTABLE_BASE_ID,
-        tableId: TABLES.ORDER_ITEMS,
-        fields: {
-          'Item ID': `${orderRecordId}-PKG-${orderData.orderDetails.packageType}`,
-          'Order': [orderRecordId],
-          'Product': [packageProductId],
-          'Quantity': 1,
-          'Unit Price': packageItem.price,
-          'Line Total': packageItem.price,
-          'Discount Amount': 0
-        }
-      });
-      
-      orderItemIds.push(packageOrderItem.id);
-      console.log(`✅ AIRTABLE - Created package item: ${packageItem.name}`);
-    }
 
-    // Create items for add-ons
-    for (const addOnKey of orderData.orderDetails.addOns) {
-      const addOnProductId = productMap.get(addOnKey);
-      if (addOnProductId) {
-        const addOnItem = SQUARE_CATALOG_ITEMS[addOnKey as keyof typeof SQUARE_CATALOG_ITEMS];
-        const addOnOrderItem = await callAirtableMCP('create_record', {
-          baseId: AIRTABLE_BASE_ID,
-          tableId: TABLES.ORDER_ITEMS,
-          fields: {
-            'Item ID': `${orderRecordId}-ADD-${addOnKey}`,
-            'Order': [orderRecordId],
-            'Product': [addOnProductId],
-            'Quantity': 1,
-            'Unit Price': addOnItem.price,
-            'Line Total': addOnItem.price,
-            'Discount Amount': 0
-          }
-        });
-        
-        orderItemIds.push(addOnOrderItem.id);
-        console.log(`✅ AIRTABLE - Created add-on item: ${addOnItem.name}`);
-      }
+    const items = buildOrderItemFields(orderRecordId, orderData, productMap);
+    if (items.length === 0) {
+      return [];
     }
 
-    // Apply discount if present
-    if (orderData.orderDetails.discountCode && orderData.orderDetails.discountAmount && orderItemIds.length > 0) {
-      // Apply discount to the first item (main package)
-      const discountAmount = orderData.orderDetails.discountAmount;
-      await callAirtableMCP('update_records', {
-        baseId: AIRTABLE_BASE_ID,
-        tableId: TABLES.ORDER_ITEMS,
-        records: [{
-          id: orderItemIds[0],
-          fields: {
-            'Discount Amount': discountAmount,
-            'Line Total': SQUARE_CATALOG_ITEMS[orderData.orderDetails.packageType as keyof typeof SQUARE_CATALOG_ITEMS].price - discountAmount
-          }
-        }]
-      });
-      
-      console.log(`✅ AIRTABLE - Applied discount: $${discountAmount} with code ${orderData.orderDetails.discountCode}`);
+    const created = await callAirtableMCP('create_records', {
+      baseId: AIRTABLE_BASE_ID,
+      tableId: TABLES.ORDER_ITEMS,
+      records: items.map(fields => ({ fields }))
+    });
+
+    const orderItemIds: string[] = created.records.map((record: { id: string }) => record.id);
+    console.log(`✅ AIRTABLE - Created ${orderItemIds.length} order items`);
+    const discount = items.reduce((sum, item) => sum + Number(item['Discount Amount']), 0);
+    if (discount > 0) {
+      console.log(`✅ AIRTABLE - Applied discount: $${discount.toFixed(2)} with code ${orderData.orderDetails.discountCode}`);
     }
 
     return orderItemIds;
@@ -330,10 +412,27 @@ export async function createOrderItems(
   }
 }
 
+// The record-level steps of createCompleteOrder. Airtable by default; the
+// server can pass another store (see api/_lib/orderRepository.ts).
+export interface OrderWriter {
+  findOrCreateCustomer(customerInfo: OrderData['customerInfo']): Promise<{ recordId: string; isNew: boolean }>;
+  ensureProductsExist(): Promise<Map<string, string>>;
+  createOrder(orderData: OrderData, customerRecordId: string): Promise<{ recordId: string; orderNumber: string }>;
+  createOrderItems(orderRecordId: string, orderData: OrderData, productMap: Map<string, string>): Promise<string[]>;
+}
+
+export const airtableOrderWriter: OrderWriter = {
+  findOrCreateCustomer,
+  ensureProductsExist,
+  createOrder,
+  createOrderItems
+};
+
 // Main function to create complete order in Airtable
-export async function createCompleteOrder(orderData: OrderData): Promise<{
+export async function createCompleteOrder(orderData: OrderData, writer: OrderWriter = airtableOrderWriter): Promise<{
   customerRecordId: string;
   orderRecordId: string;
+  orderNumber: string;
   orderItemIds: string[];
   isNewCustomer: boolean;
 }> {
@@ -341,16 +440,16 @@ export async function createCompleteOrder(orderData: OrderData): Promise<{
     console.log('📊 AIRTABLE - Creating complete order in Airtable');
 
     // Step 1: Find or create customer
-    const { recordId: customerRecordId, isNew: isNewCustomer } = await findOrCreateCustomer(orderData.customerInfo);
+    const { recordId: customerRecordId, isNew: isNewCustomer } = await writer.findOrCreateCustomer(orderData.customerInfo);
 
     // Step 2: Ensure all products exist
-    const productMap = await ensureProductsExist();
+    const productMap = await writer.ensureProductsExist();
 
     // Step 3: Create order
-    const orderRecordId = await createOrder(orderData, customerRecordId);
+    const { recordId: orderRecordId, orderNumber } = await writer.createOrder(orderData, customerRecordId);
 
     // Step 4: Create order items
-    const orderItemIds = await createOrderItems(orderRecordId, orderData, productMap);
+    const orderItemIds = await writer.createOrderItems(orderRecordId, orderData, productMap);
 
     console.log('✅ AIRTABLE - Complete order created successfully');
     console.log(`📊 AIRTABLE - Customer: ${customerRecordId} (${isNewCustomer ? 'NEW' : 'EXISTING'})`);
@@ -360,6 +459,7 @@ export async function createCompleteOrder(orderData: OrderData): Promise<{
     return {
       customerRecordId,
       orderRecordId,
+      orderNumber,
       orderItemIds,
       isNewCustomer
     };
@@ -373,22 +473,19 @@ export async function createCompleteOrder(orderData: OrderData): Promise<{
 // Update order with Square payment information
 export async function updateOrderWithPaymentInfo(
   orderRecordId: string, 
-  paymentInfo: { paymentId: string; squareOrderId: string; squareCustomerId: string }
+  paymentInfo: PaymentDetails
 ): Promise<void> {
   try {
     console.log('📊 AIRTABLE - Updating order with payment info:', orderRecordId);
 
-    // Since we don't have Square payment fields in the current schema,
-    // we'll add this info to the notes or create custom fields
-    // For now, we'll update the status to Processing
     await callAirtableMCP('update_records', {
       baseId: AIRTABLE_BASE_ID,
       tableId: TABLES.ORDERS,
       records: [{
         id: orderRecordId,
         fields: {
-          'Status': 'Processing'
-          // Could add custom fields for Square IDs if needed
+          'Status': 'Processing',
+          ...buildPaymentFields(paymentInfo)
         }
       }]
     });
@@ -401,38 +498,16 @@ export async function updateOrderWithPaymentInfo(
   }
 }
 
-// Helper functions
-function generateOrderNumber(): string {
-  const timestamp = Date.now().toString().slice(-8);
-  const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
-  return `HB-${timestamp}-${random}`;
-}
-
-function getProductDescription(productKey: string): string {
-  const descriptions: Record<string, string> = {
-    'starter': 'Perfect for small collections - digitize up to 100 photos with basic scanning and digital delivery',
-    'popular': 'Most popular package - digitize up to 500 photos with enhanced scanning and restoration options',
-    'dustyRose': 'Premium package with professional restoration and enhancement services for larger collections',
-    'eternal': 'Ultimate package with comprehensive digitization, restoration, and premium archival services',
-    'usbDrive': 'Custom USB drive with your digitized memories for easy sharing and backup',
-    'expeditedProcessing': 'Get your digitized memories back faster with expedited processing',
-    'rushProcessing': 'Urgent processing for time-sensitive projects - fastest turnaround available',
-    'onlineGallery': 'Secure online gallery with cloud backup and easy sharing capabilities'
-  };
-  
-  return descriptions[productKey] || 'HeritageBox digitization service';
+// Order details a customer can see by order number and email
+export interface OrderSummary {
+  orderNumber: string;
+  orderDate: string;
+  status: Order['status'];
+  totalAmount: number;
 }
 
-// Legacy compatibility functions for Checkout.tsx
-export async function sendOrderToAirtable(checkoutOrderData: any): Promise<{
-  customerRecordId: string;
-  orderRecordId: string;
-  orderItemIds: string[];
-  isNewCustomer: boolean;
-}> {
-  // Transform the checkout order data to the OrderData interface format
-  const transformedOrderData = transformCheckoutOrderToOrderData(checkoutOrderData);
-  return await createCompleteOrder(transformedOrderData);
+export async function lookupOrder(orderNumber: string, email: string): Promise<OrderSummary> {
+  return await callAirtableEndpoint('lookup_order', { orderNumber, email });
 }
 
 // Parse add-on details from checkout form (handles both string[] and formatted string[] from checkout)
@@ -476,78 +551,6 @@ export function parseSpeedDetails(speedInput: string[] | string): string {
   return 'Standard Processing (7-10 business days)';
 }
 
-// Transform Checkout order data to OrderData interface format
-function transformCheckoutOrderToOrderData(checkoutOrder: any): OrderData {
-  // Map package name to the expected format
-  const packageTypeMap: Record<string, string> = {
-    'Starter': 'starter',
-    'Popular': 'popular',
-    'Dusty Rose': 'dustyRose',
-    'Eternal': 'eternal'
-  };
-  
-  const packageType = packageTypeMap[checkoutOrder.orderDetails.package] || 'popular';
-  
-  // Extract add-ons from the checkout format
-  const addOns: string[] = [];
-  
-  // Check addOnDetails object for selected items
-  if (checkoutOrder.orderDetails.addOnDetails) {
-    const details = checkoutOrder.orderDetails.addOnDetails;
-    if (details.storageUpgrade && details.storageUpgrade.selected) {
-      addOns.push('usbDrive');
-    }
-    if (details.backupCopies && details.backupCopies.selected) {
-      addOns.push('onlineGallery');
-    }
-  }
-  
-  // Check digitizing speed
-  if (checkoutOrder.orderDetails.digitizingSpeed) {
-    const speed = checkoutOrder.orderDetails.digitizingSpeed.toLowerCase();
-    if (speed === 'expedited') {
-      addOns.push('expeditedProcessing');
-    } else if (speed === 'rush') {
-      addOns.push('rushProcessing');
-    }
-  }
-  
-  // Convert total amount from string to number
-  const totalAmount = parseFloat(checkoutOrder.orderDetails.totalAmount.replace('$', ''));
-  const discountAmount = checkoutOrder.orderDetails.discountAmount 
-    ? parseFloat(checkoutOrder.orderDetails.discountAmount.replace('$', ''))
-    : 0;
-  
-  return {
-    customerInfo: {
-      firstName: checkoutOrder.customerInfo.firstName,
-      lastName: checkoutOrder.customerInfo.lastName,
-      email: checkoutOrder.customerInfo.email,
-      phone: checkoutOrder.customerInfo.phone,
-      address: {
-        address_line_1: checkoutOrder.customerInfo.address,
-        locality: checkoutOrder.customerInfo.city,
-        administrative_district_level_1: checkoutOrder.customerInfo.state,
-        postal_code: checkoutOrder.customerInfo.zipCode,
-        country: 'US'
-      }
-    },
-    orderDetails: {
-      packageType: packageType,
-      addOns: addOns,
-      totalAmount: totalAmount,
-      discountCode: checkoutOrder.orderDetails.couponCode !== 'None' ? checkoutOrder.orderDetails.couponCode : undefined,
-      discountAmount: discountAmount > 0 ? discountAmount : undefined
-    },
-    paymentDetails: {
-      // These would be populated if we had Square payment info
-      paymentId: undefined,
-      squareOrderId: undefined,
-      squareCustomerId: undefined
-    }
-  };
-}
-
 // Export configuration for easy access
 export const AIRTABLE_CONFIG = {
   BASE_ID: AIRTABLE_BASE_ID,
@@ -6,86 +6,184 @@
 // Brevo API endpoint for sending transactional emails
 const BREVO_API_ENDPOINT = 'https://api.brevo.com/v3/smtp/email';
 
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
 export interface OrderData {
   orderNumber: string;
   orderDate: string;
-  packageType: string;
+  packageName: string;
   usbDrives: number;
-  digitizingSpeed?: string;
-  speedTime?: string;
-  speedPrice?: number;
-  total?: string;
-  customerName?: string;
-  customerEmail?: string;
+  digitizingSpeed: string;
+  speedTime: string;
+  total: string;
 }
 
 /**
- * Sends order confirmation details to Brevo
+ * Emails the customer the confirmation of their order. Used server-side by the
+ * order outbox (api/_lib/outbox.ts) once the payment has gone through.
  * @param customerEmail Customer's email address
  * @param customerName Customer's full name
  * @param orderData Order details
- * @returns Promise with the API response
+ * @param apiKey Brevo API key (BREVO_API_KEY)
+ * @returns Whether Brevo accepted the email
  */
 export const sendOrderConfirmationToBrevo = async (
   customerEmail: string,
-  customerName: string, 
-  orderData: OrderData
-): Promise<Response> => {
-  // For demonstration purposes, we'll log the data that would be sent
-  console.log('Sending to Brevo:', {
-    customerEmail,
-    customerName,
-    orderData
-  });
-
-  // In a real implementation, you would uncomment this code and add your Brevo API key
-  /*
-  return fetch(BREVO_API_ENDPOINT, {
+  customerName: string,
+  orderData: OrderData,
+  apiKey: string
+): Promise<boolean> => {
+  const response = await fetch(BREVO_API_ENDPOINT, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'api-key': 'YOUR_BREVO_API_KEY', // You should store this in Supabase secrets
+      'api-key': apiKey,
     },
     body: JSON.stringify({
       sender: {
-        name: "Memory Mixers",
-        email: "orders@memorymixers.com"
+        name: "HeritageBox",
+        email: "info@heritagebox.com"
       },
       to: [{
         email: customerEmail,
         name: customerName
       }],
-      subject: `Your Memory Mixers Order Confirmation #${orderData.orderNumber}`,
+      subject: `Your HeritageBox order confirmation #${orderData.orderNumber}`,
       htmlContent: `
         <html>
           <body>
             <h1>Thank you for your order!</h1>
-            <p>Hello ${customerName},</p>
+            <p>Hello ${escapeHtml(customerName)},</p>
             <p>We've received your order and are processing it. Here are your order details:</p>
             <ul>
-              <li><strong>Order Number:</strong> ${orderData.orderNumber}</li>
-              <li><strong>Order Date:</strong> ${orderData.orderDate}</li>
-              <li><strong>Package Type:</strong> ${orderData.packageType}</li>
-              <li><strong>Additional USB Drives:</strong> ${orderData.usbDrives || 0}</li>
-              <li><strong>Digitizing Speed:</strong> ${orderData.digitizingSpeed || 'Standard'} (${orderData.speedTime})</li>
+              <li><strong>Order Number:</strong> ${escapeHtml(orderData.orderNumber)}</li>
+              <li><strong>Order Date:</strong> ${escapeHtml(orderData.orderDate)}</li>
+              <li><strong>Package:</strong> ${escapeHtml(orderData.packageName)}</li>
+              <li><strong>Additional USB Drives:</strong> ${orderData.usbDrives}</li>
+              <li><strong>Digitizing Speed:</strong> ${escapeHtml(orderData.digitizingSpeed)} (${escapeHtml(orderData.speedTime)})</li>
+              <li><strong>Total:</strong> ${escapeHtml(orderData.total)}</li>
             </ul>
             <p>Your order will be processed according to the timeline for your selected digitizing speed.</p>
-            <p>Thank you for choosing Memory Mixers!</p>
+            <p>The HeritageBox Team</p>
           </body>
         </html>
       `,
       params: {
         orderNumber: orderData.orderNumber,
-        packageType: orderData.packageType,
+        packageName: orderData.packageName,
         orderTotal: orderData.total
       }
     })
   });
-  */
 
-  // Return a mock successful response for now
-  return new Response(JSON.stringify({ message: 'Email would be sent in production' }), {
-    status: 200,
-    headers: { 'Content-Type': 'application/json' }
+  return response.ok;
+};
+
+export interface RefundNoticeData {
+  orderNumber: string;
+  refundAmount: number;
+  fullRefund: boolean;
+  reason?: string;
+}
+
+/**
+ * Emails the customer that a refund has been issued. Used server-side by /api/refunds.
+ * @param customerEmail Customer's email address
+ * @param customerName Customer's full name
+ * @param refund Refund details
+ * @param apiKey Brevo API key (BREVO_API_KEY)
+ * @returns Whether Brevo accepted the email
+ */
+export const sendRefundNoticeToBrevo = async (
+  customerEmail: string,
+  customerName: string,
+  refund: RefundNoticeData,
+  apiKey: string
+): Promise<boolean> => {
+  const amount = `$${refund.refundAmount.toFixed(2)}`;
+  const summary = refund.fullRefund
+    ? `Your order #${refund.orderNumber} has been canceled and refunded in full (${amount}).`
+    : `We have refunded ${amount} of your order #${refund.orderNumber}.`;
+
+  const response = await fetch(BREVO_API_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'api-key': apiKey,
+    },
+    body: JSON.stringify({
+      sender: {
+        name: "HeritageBox",
+        email: "info@heritagebox.com"
+      },
+      to: [{
+        email: customerEmail,
+        name: customerName
+      }],
+      subject: `Your HeritageBox refund for order #${refund.orderNumber}`,
+      htmlContent: `
+        <html>
+          <body>
+            <p>Hello ${escapeHtml(customerName)},</p>
+            <p>${escapeHtml(summary)}</p>
+            ${refund.reason ? `<p><strong>Reason:</strong> ${escapeHtml(refund.reason)}</p>` : ''}
+            <p>Refunds go back to your original payment method and usually appear within 5-10 business days.</p>
+            <p>If you have any questions, reply to this email or contact info@heritagebox.com.</p>
+            <p>The HeritageBox Team</p>
+          </body>
+        </html>
+      `,
+      params: {
+        orderNumber: refund.orderNumber,
+        refundAmount: amount
+      }
+    })
+  });
+
+  return response.ok;
+};
+
+/**
+ * Emails a returning customer the code that unlocks their saved cards at checkout.
+ * Used server-side by /api/saved-cards.
+ * @param customerEmail Customer's email address
+ * @param code 8-digit verification code
+ * @param apiKey Brevo API key (BREVO_API_KEY)
+ * @returns Whether Brevo accepted the email
+ */
+export const sendCardAccessCodeToBrevo = async (
+  customerEmail: string,
+  code: string,
+  apiKey: string
+): Promise<boolean> => {
+  const response = await fetch(BREVO_API_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'api-key': apiKey,
+    },
+    body: JSON.stringify({
+      sender: {
+        name: "HeritageBox",
+        email: "info@heritagebox.com"
+      },
+      to: [{
+        email: customerEmail
+      }],
+      subject: `Your HeritageBox verification code: ${code}`,
+      htmlContent: `
+        <html>
+          <body>
+            <p>Use this code to pay with a card you saved at HeritageBox:</p>
+            <p style="font-size: 24px; font-weight: bold; letter-spacing: 4px;">${code}</p>
+            <p>The code expires in 10 minutes. If you didn't request it, you can ignore this email.</p>
+            <p>The HeritageBox Team</p>
+          </body>
+        </html>
+      `
+    })
   });
+
+  return response.ok;
 };
@@ -0,0 +1,269 @@
+// Single source of truth for HeritageBox packages and add-ons.
+// Pages, the Square integration, pricing and the Airtable product sync all
+// read from here, so a price or allowance change is made in one place.
+
+export type PackageKey = 'starter' | 'popular' | 'dustyRose' | 'eternal';
+export type AddOnKey = 'usbDrive' | 'expeditedProcessing' | 'rushProcessing' | 'onlineGallery';
+export type GiftCardKey = 'giftCard';
+export type CatalogKey = PackageKey | AddOnKey | GiftCardKey;
+export type DigitizingSpeed = 'standard' | 'expedited' | 'rush';
+
+export type PackageColor = 'primary' | 'secondary' | 'rose-dark' | 'primary-light';
+
+export interface SquareCatalogIds {
+  itemId: string;
+  variationId: string;
+}
+
+export interface PackageDefinition {
+  key: PackageKey;
+  name: string;        // Display name, also used in the ?package= query string
+  slug: string;        // Identifier sent to the API routes
+  price: number;
+  tapeCount: number;
+  photoCount: number;
+  description: string;
+  color: PackageColor;
+  popular?: boolean;
+  features: string[];
+  square: SquareCatalogIds;
+}
+
+export interface AddOnDefinition {
+  key: AddOnKey;
+  name: string;
+  price: number;
+  description: string;
+  square: SquareCatalogIds;
+}
+
+export const PACKAGES: PackageDefinition[] = [
+  {
+    key: 'starter',
+    name: 'Starter',
+    slug: 'starter',
+    price: 69.00,
+    tapeCount: 3,
+    photoCount: 75,
+    description: 'Perfect for a small collection of memories',
+    color: 'primary',
+    features: [
+      'High-quality digital conversion',
+      'Online access to digital files',
+      'Free shipping both ways',
+      'Online Backup (1 Year Free)',
+      'Professional quality guarantee'
+    ],
+    square: {
+      itemId: 'CWZUFHRUS6WG223QCKMLGDMV',
+      variationId: 'GNQP4YZH57MGVR265N4QA7QH'
+    }
+  },
+  {
+    key: 'popular',
+    name: 'Popular',
+    slug: 'popular',
+    price: 179.00,
+    tapeCount: 10,
+    photoCount: 250,
+    description: 'Our most popular package for families',
+    color: 'secondary',
+    popular: true,
+    features: [
+      'High-quality digital conversion',
+      'Online access to digital files',
+      'Free shipping both ways',
+      'Online Backup (1 Year Free)',
+      'Professional quality guarantee',
+      'Priority processing'
+    ],
+    square: {
+      itemId: 'SRFFZ5C7PZ2FP2MMQC4SF5SO',
+      variationId: 'MXDI5KGKHQE2G7MVWPGJWZIS'
+    }
+  },
+  {
+    key: 'dustyRose',
+    name: 'Dusty Rose',
+    slug: 'dusty-rose',
+    price: 349.00,
+    tapeCount: 20,
+    photoCount: 500,
+    description: 'Great for larger collections',
+    color: 'rose-dark',
+    features: [
+      'High-quality digital conversion',
+      'Online access to digital files',
+      'Free shipping both ways',
+      'Online Backup (1 Year Free)',
+      'Professional quality guarantee',
+      'Priority processing'
+    ],
+    square: {
+      itemId: 'SR4WG6NXKQRBPZZR5SAIQ42V',
+      variationId: 'GKIADSF5IJQEAAKCIL2WXZEK'
+    }
+  },
+  {
+    key: 'eternal',
+    name: 'Eternal',
+    slug: 'eternal',
+    price: 599.00,
+    tapeCount: 40,
+    photoCount: 1000,
+    description: 'For preserving a lifetime of memories',
+    color: 'primary-light',
+    features: [
+      'High-quality digital conversion',
+      'Online access to digital files',
+      'Free shipping both ways',
+      'Online Backup (1 Year Free)',
+      'Professional quality guarantee',
+      'Priority processing',
+      'Dedicated support specialist'
+    ],
+    square: {
+      itemId: '6QQ3TRFXNERSKJO7RDJPJIRZ',
+      variationId: 'X2N4DL3YZBKJYAICCVYMSJ6Y'
+    }
+  }
+];
+
+export const ADD_ONS: AddOnDefinition[] = [
+  {
+    key: 'usbDrive',
+    name: 'Custom USB Drive',
+    price: 24.95,
+    description: 'Custom USB drive with your digitized memories for easy sharing and backup',
+    square: {
+      itemId: 'NCR5WYLYAJOCWVG4S3IMNZPF',
+      variationId: 'SMW4WXZUAE6E5L3FTS76NC7Y'
+    }
+  },
+  {
+    key: 'expeditedProcessing',
+    name: 'Expedited Processing',
+    price: 29.99,
+    description: 'Get your digitized memories back faster with expedited processing',
+    square: {
+      itemId: '56ZXSWLL3X3TMEQBYM6KJWXF',
+      variationId: '37LXAW3CQ7ONF7AGNCYDWRRT'
+    }
+  },
+  {
+    key: 'rushProcessing',
+    name: 'Rush Processing',
+    price: 64.99,
+    description: 'Urgent processing for time-sensitive projects - fastest turnaround available',
+    square: {
+      itemId: '3P62CBU2OECIDL4PKTOWPFWM',
+      variationId: 'HSMOF4CINCKHVWUPCEN5ZBOU'
+    }
+  },
+  {
+    key: 'onlineGallery',
+    name: 'Online Gallery & Backup',
+    price: 0.00, // Free first year
+    description: 'Secure online gallery with cloud backup and easy sharing capabilities',
+    square: {
+      itemId: 'KG44MEJ2E5GKEG3Y3HA6DAZ2',
+      variationId: 'YJ3AGBF7MRHW2QQ6KI5DMSPG'
+    }
+  }
+];
+
+export interface GiftCardDefinition {
+  key: GiftCardKey;
+  name: string;
+  description: string;
+}
+
+// A Square gift card worth one package, bought for someone else. Square only
+// activates gift cards sold as ad hoc GIFT_CARD line items, so unlike the
+// packages and add-ons it has no Square catalog object.
+export const GIFT_CARD: GiftCardDefinition = {
+  key: 'giftCard',
+  name: 'Gift a HeritageBox',
+  description: 'Digital gift card worth a HeritageBox package, sent to the recipient with a personal message'
+};
+
+export interface DigitizingOption {
+  id: DigitizingSpeed;
+  name: string;
+  price: number;
+  time: string;
+  description: string;
+  addOn: AddOnKey | null; // Add-on charged for this speed
+}
+
+export const DIGITIZING_OPTIONS: DigitizingOption[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    price: 0,
+    time: '4-6 weeks',
+    description: 'Our standard digitizing service',
+    addOn: null
+  },
+  {
+    id: 'expedited',
+    name: 'Expedited',
+    price: ADD_ONS.find(addOn => addOn.key === 'expeditedProcessing')!.price,
+    time: '2-3 weeks',
+    description: 'Faster processing of your memories',
+    addOn: 'expeditedProcessing'
+  },
+  {
+    id: 'rush',
+    name: 'Rush',
+    price: ADD_ONS.find(addOn => addOn.key === 'rushProcessing')!.price,
+    time: '10 business days',
+    description: 'Priority handling for urgent projects',
+    addOn: 'rushProcessing'
+  }
+];
+
+export const DEFAULT_PACKAGE = PACKAGES[1];
+
+export function getPackage(key: PackageKey): PackageDefinition {
+  return PACKAGES.find(pkg => pkg.key === key)!;
+}
+
+export function getAddOn(key: AddOnKey): AddOnDefinition {
+  return ADD_ONS.find(addOn => addOn.key === key)!;
+}
+
+export function getDigitizingOption(speed: string): DigitizingOption {
+  return DIGITIZING_OPTIONS.find(option => option.id === speed) || DIGITIZING_OPTIONS[0];
+}
+
+// Look up a package by its display name (e.g. "Dusty Rose"), falling back to Popular
+export function findPackageByName(name: string | null | undefined): PackageDefinition {
+  return PACKAGES.find(pkg => pkg.name === name) || DEFAULT_PACKAGE;
+}
+
+export function findPackageBySlug(slug: string): PackageDefinition | undefined {
+  return PACKAGES.find(pkg => pkg.slug === slug);
+}
+
+export function formatPackagePrice(pkg: PackageDefinition): string {
+  return Number.isInteger(pkg.price) ? `$${pkg.price}` : `$${pkg.price.toFixed(2)}`;
+}
+
+// "Up to 3 tapes OR up to 75 photos"
+export function formatPackageAllowance(pkg: PackageDefinition): string {
+  return `Up to ${pkg.tapeCount} tapes OR up to ${pkg.photoCount} photos`;
+}
+
+// Long-form description used for the Airtable Products table
+export function getCatalogDescription(key: CatalogKey): string {
+  const pkg = PACKAGES.find(p => p.key === key);
+  if (pkg) {
+    return `${pkg.name} package - digitize up to ${pkg.tapeCount} tapes or up to ${pkg.photoCount} photos. ${pkg.description}.`;
+  }
+  const addOn = ADD_ONS.find(a => a.key === key);
+  if (addOn) {
+    return addOn.description;
+  }
+  return key === GIFT_CARD.key ? GIFT_CARD.description : 'HeritageBox digitization service';
+}
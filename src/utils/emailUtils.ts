@@ -3,13 +3,6 @@
  * Utility functions for sending emails to HeritageBox
  */
 
-// Generate a unique order ID
-const generateOrderId = () => {
-  const timestamp = Date.now();
-  const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
-  return `HB-${timestamp}-${random}`;
-};
-
 // Format the customer address for better readability
 const formatAddress = (customerInfo: any) => {
   return `${customerInfo.address}, ${customerInfo.city}, ${customerInfo.state} ${customerInfo.zipCode}`;
@@ -27,8 +20,8 @@ const formatOrderDetails = (data: any, source: string) => {
     console.log('📧 FORMSPREE DEBUG - Customer Info received:', data.customerInfo);
     console.log('📧 FORMSPREE DEBUG - Order Details received:', data.orderDetails);
     
-    // Generate order ID if not provided
-    const orderId = data.orderId || generateOrderId();
+    // Order numbers are issued by the server with the payment
+    const orderId = data.orderId || 'Not assigned';
     console.log('📧 FORMSPREE DEBUG - Order ID:', orderId);
     
     // Flatten the object structure for better Formspree compatibility
@@ -70,6 +63,9 @@ const formatOrderDetails = (data: any, source: string) => {
       discount_percent: data.orderDetails.discountPercent || 0,
       discount_amount: data.orderDetails.discountAmount || "$0.00",
       
+      // Sales Tax
+      sales_tax: data.orderDetails.salesTax || "$0.00",
+      
       // Final Total
       total_amount: data.orderDetails.totalAmount,
       
@@ -85,7 +81,7 @@ const formatOrderDetails = (data: any, source: string) => {
       timestamp: data.timestamp,
       
       // Additional context
-      order_summary: `Order ID: ${orderId} | Package: ${data.orderDetails.package} (${data.orderDetails.packagePrice}) | Speed: ${data.orderDetails.digitizingSpeed} (${data.orderDetails.digitizingTime}) | Subtotal: ${data.orderDetails.subtotal} | Coupon: ${data.orderDetails.couponCode || 'None'} | Discount: ${data.orderDetails.discountAmount || '$0.00'} | Total: ${data.orderDetails.totalAmount} | Payment: ${data.paymentMethod}`,
+      order_summary: `Order ID: ${orderId} | Package: ${data.orderDetails.package} (${data.orderDetails.packagePrice}) | Speed: ${data.orderDetails.digitizingSpeed} (${data.orderDetails.digitizingTime}) | Subtotal: ${data.orderDetails.subtotal} | Coupon: ${data.orderDetails.couponCode || 'None'} | Discount: ${data.orderDetails.discountAmount || '$0.00'} | Tax: ${data.orderDetails.salesTax || '$0.00'} | Total: ${data.orderDetails.totalAmount} | Payment: ${data.paymentMethod}`,
       
       // Debug info
       form_source: 'checkout_order_completion',
@@ -173,6 +169,3 @@ export const sendEmailToHeritageBox = async (data: any, source: string) => {
     return false; // Return false instead of throwing
   }
 };
-
-// Export the generateOrderId function for use in other modules
-export { generateOrderId };
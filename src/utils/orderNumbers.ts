@@ -0,0 +1,42 @@
+// Customer-facing order numbers, e.g. "HB13405-7".
+// Sequences are issued on the server (see api/_lib/orderNumbers.ts); this
+// module only formats and checks them so the browser can do the same.
+
+export const ORDER_NUMBER_PREFIX = 'HB';
+
+// The first order number issued by the allocator
+export const FIRST_ORDER_SEQUENCE = 13405;
+
+const ORDER_NUMBER_PATTERN = /^HB(\d{5,})-(\d)$/;
+
+// Luhn check digit, so a mistyped digit or swapped pair is caught
+export function computeCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export function formatOrderNumber(sequence: number): string {
+  if (!Number.isInteger(sequence) || sequence < FIRST_ORDER_SEQUENCE) {
+    throw new Error(`Invalid order sequence: ${sequence}`);
+  }
+  const digits = sequence.toString().padStart(5, '0');
+  return `${ORDER_NUMBER_PREFIX}${digits}-${computeCheckDigit(digits)}`;
+}
+
+// Accepts input typed by a customer or support agent ("hb13405-7", " HB13405-7 ")
+export function normalizeOrderNumber(value: string): string {
+  return value.trim().toUpperCase();
+}
+
+export function isValidOrderNumber(value: string): boolean {
+  const match = ORDER_NUMBER_PATTERN.exec(normalizeOrderNumber(value));
+  return !!match && computeCheckDigit(match[1]) === Number(match[2]);
+}
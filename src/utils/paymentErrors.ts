@@ -0,0 +1,85 @@
+// Card decline reasons shared by /api/process-payment, which classifies Square's
+// error codes, and the checkout page, which tells the customer what to do next.
+
+export type DeclineReason =
+  | 'insufficient_funds'
+  | 'cvv'
+  | 'expired_card'
+  | 'address_mismatch'
+  | 'invalid_card'
+  | 'call_issuer'
+  | 'generic';
+
+export interface DeclineGuidance {
+  title: string;
+  guidance: string;
+  // Whether fixing the details of the same card can succeed, or another card is needed
+  sameCardRetry: boolean;
+}
+
+export const DECLINE_GUIDANCE: Record<DeclineReason, DeclineGuidance> = {
+  insufficient_funds: {
+    title: 'Insufficient funds',
+    guidance: 'Your card did not have enough available credit for this order. Try a different card, or pay with PayPal.',
+    sameCardRetry: false
+  },
+  cvv: {
+    title: 'Security code did not match',
+    guidance: 'Check the 3 or 4 digit security code (CVV) on your card and enter it again.',
+    sameCardRetry: true
+  },
+  expired_card: {
+    title: 'Card expired',
+    guidance: 'Check the expiration date. If the card has expired, use a different card.',
+    sameCardRetry: true
+  },
+  address_mismatch: {
+    title: 'Billing ZIP code did not match',
+    guidance: 'Enter the ZIP code your card statement is sent to. It can differ from your shipping address.',
+    sameCardRetry: true
+  },
+  invalid_card: {
+    title: 'Card number not accepted',
+    guidance: 'Check the card number, or use a different card.',
+    sameCardRetry: true
+  },
+  call_issuer: {
+    title: 'Your bank declined the payment',
+    guidance: 'Your bank wants to approve this payment. Call the number on the back of your card, or use a different card.',
+    sameCardRetry: false
+  },
+  generic: {
+    title: 'Card declined',
+    guidance: 'Your card was declined. Try a different card, or pay with PayPal.',
+    sameCardRetry: false
+  }
+};
+
+const SQUARE_DECLINE_REASONS: Record<string, DeclineReason> = {
+  INSUFFICIENT_FUNDS: 'insufficient_funds',
+  TRANSACTION_LIMIT: 'insufficient_funds',
+  CVV_FAILURE: 'cvv',
+  VERIFY_CVV_FAILURE: 'cvv',
+  EXPIRATION_FAILURE: 'expired_card',
+  INVALID_EXPIRATION: 'expired_card',
+  BAD_EXPIRATION: 'expired_card',
+  CARD_EXPIRED: 'expired_card',
+  ADDRESS_VERIFICATION_FAILURE: 'address_mismatch',
+  VERIFY_AVS_FAILURE: 'address_mismatch',
+  INVALID_POSTAL_CODE: 'address_mismatch',
+  INVALID_CARD: 'invalid_card',
+  INVALID_ACCOUNT: 'invalid_card',
+  PAN_FAILURE: 'invalid_card',
+  CARD_NOT_SUPPORTED: 'invalid_card',
+  CARD_DECLINED_CALL_ISSUER: 'call_issuer',
+  VOICE_FAILURE: 'call_issuer',
+  ALLOWABLE_PIN_TRIES_EXCEEDED: 'call_issuer'
+};
+
+export function getDeclineReason(squareCode?: string): DeclineReason {
+  return (squareCode && SQUARE_DECLINE_REASONS[squareCode]) || 'generic';
+}
+
+export function isDeclineReason(value: unknown): value is DeclineReason {
+  return typeof value === 'string' && value in DECLINE_GUIDANCE;
+}
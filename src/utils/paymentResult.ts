@@ -0,0 +1,46 @@
+// Response bodies of /api/process-payment and /api/paypal-orders, as read by
+// the checkout page.
+import type { DeclineReason } from './paymentErrors.js';
+import type { PriceBreakdown } from './pricing.js';
+
+export type PaymentErrorCode =
+  | 'PAYMENT_DECLINED'
+  | 'VERIFICATION_REQUIRED'
+  | 'GIFT_CARD_DECLINED'
+  | 'GIFT_CARD_INSUFFICIENT'
+  | 'SAVED_CARD_UNAVAILABLE'
+  | 'PRICE_MISMATCH'
+  | 'COUPON_INVALID'
+  | 'ADDRESS_INVALID';
+
+export interface PaymentSuccess {
+  success: true;
+  orderNumber: string;
+  // Whether the order was saved now rather than left for a retry
+  orderRecorded: boolean;
+  // A retry of a checkout that already went through
+  duplicate?: boolean;
+  cardSaved?: boolean;
+  // What was actually charged
+  pricing?: PriceBreakdown;
+}
+
+export interface PaymentFailure {
+  success: false;
+  code?: PaymentErrorCode;
+  error?: string;
+  declineReason?: DeclineReason;
+  declineCode?: string;
+  // GIFT_CARD_INSUFFICIENT: what the gift card covers and what is left to pay by card
+  giftCardAmount?: number;
+  remainingAmount?: number;
+  // PRICE_MISMATCH: the server's breakdown
+  pricing?: PriceBreakdown;
+}
+
+export type PaymentResult = PaymentSuccess | PaymentFailure;
+
+// /api/paypal-orders { action: 'create' }
+export type PayPalOrderResult =
+  | { success: true; paypalOrderId: string; orderNumber: string }
+  | PaymentFailure;
@@ -0,0 +1,250 @@
+// Order pricing shared by the checkout page and the payment handler.
+// The browser uses it to render the order summary; /api/process-payment
+// re-runs it on the server so the amount charged never comes from the client.
+import { SQUARE_CATALOG_ITEMS, mapPackageToSquareCatalog } from './squareIntegration.js';
+import { DIGITIZING_OPTIONS, PACKAGES, type CatalogKey, type DigitizingSpeed, type PackageKey } from './catalog.js';
+import { formatTaxLabel, type TaxRate } from './tax.js';
+
+export type { CatalogKey, DigitizingSpeed, PackageKey };
+
+export const PACKAGE_KEYS: PackageKey[] = PACKAGES.map(pkg => pkg.key);
+
+// Maximum USB drives accepted on a single order
+export const MAX_USB_DRIVES = 20;
+
+const SPEED_CATALOG_KEYS = Object.fromEntries(
+  DIGITIZING_OPTIONS.map(option => [option.id, option.addOn])
+) as Record<DigitizingSpeed, CatalogKey | null>;
+
+export interface PricingInput {
+  packageType: PackageKey;
+  usbDrives: number;
+  cloudBackup: boolean;
+  digitizingSpeed: DigitizingSpeed;
+}
+
+// A promotion that has passed server-side validation (expiry, usage limits).
+// The eligibility rules that only depend on the cart are kept here so the
+// order summary and the payment handler apply them identically.
+export interface AppliedDiscount {
+  code: string;
+  type: 'percent' | 'fixed';
+  value: number; // percentage (0-100) or dollar amount
+  minOrderValue?: number;
+  eligiblePackages?: PackageKey[];
+  appliesTo?: CatalogKey[]; // Only discount these line items (defaults to the whole order)
+}
+
+export interface PricedLineItem {
+  catalogKey: CatalogKey;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+}
+
+export interface PriceBreakdown {
+  packageType: PackageKey;
+  packageName: string;
+  packagePrice: number;
+  usbDrives: number;
+  usbTotal: number;
+  cloudBackup: boolean;
+  digitizingSpeed: DigitizingSpeed;
+  speedPrice: number;
+  lineItems: PricedLineItem[];
+  subtotal: number;
+  couponCode?: string;
+  discountType?: AppliedDiscount['type'];
+  discountPercent: number;
+  discountLabel?: string;
+  discountAmount: number;
+  taxRate: number; // Percentage, 0 when the order is not taxed
+  taxLabel?: string;
+  taxAmount: number;
+  total: number;
+}
+
+export function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+export function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+export function isPackageKey(value: unknown): value is PackageKey {
+  return typeof value === 'string' && (PACKAGE_KEYS as string[]).includes(value);
+}
+
+export function isDigitizingSpeed(value: unknown): value is DigitizingSpeed {
+  return DIGITIZING_OPTIONS.some(option => option.id === value);
+}
+
+export function normalizeCouponCode(code?: string | null): string {
+  return (code || '').trim().toUpperCase();
+}
+
+export function formatDiscountLabel(discount: AppliedDiscount): string {
+  return discount.type === 'percent'
+    ? `${discount.value}% off`
+    : `$${discount.value.toFixed(2)} off`;
+}
+
+// Explains why a discount does not apply to the cart, or returns null when it does
+export function getDiscountIneligibilityReason(
+  discount: AppliedDiscount,
+  packageType: PackageKey,
+  lineItems: PricedLineItem[]
+): string | null {
+  const subtotalCents = lineItems.reduce((sum, line) => sum + toCents(line.lineTotal), 0);
+
+  if (discount.minOrderValue && subtotalCents < toCents(discount.minOrderValue)) {
+    return `This code requires a minimum order of $${discount.minOrderValue.toFixed(2)}`;
+  }
+  if (discount.eligiblePackages && !discount.eligiblePackages.includes(packageType)) {
+    return 'This code is not valid for the selected package';
+  }
+  if (discount.appliesTo && !lineItems.some(line => discount.appliesTo!.includes(line.catalogKey))) {
+    return 'This code does not apply to any item in your order';
+  }
+  return null;
+}
+
+function calculateDiscountCents(discount: AppliedDiscount, lineItems: PricedLineItem[]): number {
+  const eligibleCents = lineItems
+    .filter(line => !discount.appliesTo || discount.appliesTo.includes(line.catalogKey))
+    .reduce((sum, line) => sum + toCents(line.lineTotal), 0);
+
+  const discountCents = discount.type === 'percent'
+    ? Math.round(eligibleCents * discount.value / 100)
+    : toCents(discount.value);
+
+  return Math.min(Math.max(discountCents, 0), eligibleCents);
+}
+
+// Split an order discount across lines in proportion to their amounts, the way
+// Square spreads an ORDER-scoped discount; the last line takes the rounding
+export function allocateDiscountCents(lineCents: number[], discountCents: number): number[] {
+  const subtotalCents = lineCents.reduce((sum, cents) => sum + cents, 0);
+  if (subtotalCents === 0) return lineCents.map(() => 0);
+
+  let unallocatedDiscount = discountCents;
+  return lineCents.map((cents, index) => {
+    const lineDiscount = index === lineCents.length - 1
+      ? unallocatedDiscount
+      : Math.round(discountCents * cents / subtotalCents);
+    unallocatedDiscount -= lineDiscount;
+    return lineDiscount;
+  });
+}
+
+// Tax each line on its share of the order discount, the way Square applies an
+// ORDER-scoped tax, so the total charged matches the Square order to the cent
+function calculateTaxCents(lineItems: PricedLineItem[], discountCents: number, rate: number): number {
+  const lineCents = lineItems.map(line => toCents(line.lineTotal));
+  if (lineCents.length === 0 || rate <= 0) return 0;
+
+  const lineDiscounts = allocateDiscountCents(lineCents, discountCents);
+  return lineCents.reduce((taxCents, cents, index) =>
+    taxCents + Math.round((cents - lineDiscounts[index]) * rate / 100), 0);
+}
+
+// Calculate the full price breakdown for an order. All arithmetic is done in
+// cents so the client and server always agree to the penny.
+export function calculateOrderPricing(
+  input: PricingInput,
+  discount?: AppliedDiscount | null,
+  tax?: TaxRate | null
+): PriceBreakdown {
+  if (!isPackageKey(input.packageType)) {
+    throw new Error(`Unknown package: ${input.packageType}`);
+  }
+  if (!isDigitizingSpeed(input.digitizingSpeed)) {
+    throw new Error(`Unknown digitizing speed: ${input.digitizingSpeed}`);
+  }
+  if (!Number.isInteger(input.usbDrives) || input.usbDrives < 0 || input.usbDrives > MAX_USB_DRIVES) {
+    throw new Error(`Invalid USB drive quantity: ${input.usbDrives}`);
+  }
+
+  const lineItems: PricedLineItem[] = [];
+  const addLine = (catalogKey: CatalogKey, quantity: number) => {
+    const item = SQUARE_CATALOG_ITEMS[catalogKey];
+    const unitCents = toCents(item.price);
+    lineItems.push({
+      catalogKey,
+      name: item.name,
+      quantity,
+      unitPrice: fromCents(unitCents),
+      lineTotal: fromCents(unitCents * quantity)
+    });
+  };
+
+  addLine(input.packageType, 1);
+  if (input.usbDrives > 0) {
+    addLine('usbDrive', input.usbDrives);
+  }
+  if (input.cloudBackup) {
+    addLine('onlineGallery', 1);
+  }
+  const speedKey = SPEED_CATALOG_KEYS[input.digitizingSpeed];
+  if (speedKey) {
+    addLine(speedKey, 1);
+  }
+
+  const subtotalCents = lineItems.reduce((sum, line) => sum + toCents(line.lineTotal), 0);
+
+  const appliedDiscount = discount && !getDiscountIneligibilityReason(discount, input.packageType, lineItems)
+    ? discount
+    : null;
+  const discountCents = appliedDiscount ? calculateDiscountCents(appliedDiscount, lineItems) : 0;
+  const taxCents = tax ? calculateTaxCents(lineItems, discountCents, tax.rate) : 0;
+
+  return {
+    packageType: input.packageType,
+    packageName: SQUARE_CATALOG_ITEMS[input.packageType].name,
+    packagePrice: SQUARE_CATALOG_ITEMS[input.packageType].price,
+    usbDrives: input.usbDrives,
+    usbTotal: fromCents(toCents(SQUARE_CATALOG_ITEMS.usbDrive.price) * input.usbDrives),
+    cloudBackup: input.cloudBackup,
+    digitizingSpeed: input.digitizingSpeed,
+    speedPrice: speedKey ? SQUARE_CATALOG_ITEMS[speedKey].price : 0,
+    lineItems,
+    subtotal: fromCents(subtotalCents),
+    couponCode: appliedDiscount ? normalizeCouponCode(appliedDiscount.code) : undefined,
+    discountType: appliedDiscount?.type,
+    discountPercent: appliedDiscount?.type === 'percent' ? appliedDiscount.value : 0,
+    discountLabel: appliedDiscount ? formatDiscountLabel(appliedDiscount) : undefined,
+    discountAmount: fromCents(discountCents),
+    taxRate: tax ? tax.rate : 0,
+    taxLabel: tax ? formatTaxLabel(tax) : undefined,
+    taxAmount: fromCents(taxCents),
+    total: fromCents(subtotalCents - discountCents + taxCents)
+  };
+}
+
+// Build pricing input from the orderDetails payload posted by the checkout page.
+// Throws when the selection cannot be priced.
+export function parsePricingInput(orderDetails: {
+  packageType?: string;
+  usbDrives?: number | string;
+  cloudBackup?: boolean;
+  digitizingSpeed?: string;
+}): PricingInput {
+  const packageType = mapPackageToSquareCatalog(orderDetails.packageType || '');
+  const digitizingSpeed = orderDetails.digitizingSpeed || 'standard';
+
+  if (!packageType) {
+    throw new Error(`Unknown package: ${orderDetails.packageType}`);
+  }
+  if (!isDigitizingSpeed(digitizingSpeed)) {
+    throw new Error(`Unknown digitizing speed: ${digitizingSpeed}`);
+  }
+
+  return {
+    packageType,
+    usbDrives: Number(orderDetails.usbDrives ?? 0),
+    cloudBackup: !!orderDetails.cloudBackup,
+    digitizingSpeed
+  };
+}
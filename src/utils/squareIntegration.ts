@@ -1,57 +1,31 @@
-// Square catalog item mappings
+import { PACKAGES, ADD_ONS, GIFT_CARD, findPackageBySlug, type CatalogKey, type PackageKey } from './catalog.js';
+import type { PricedLineItem } from './pricing.js';
+
+export interface SquareCatalogItem {
+  id: string;
+  variation_id: string;
+  name: string;
+  price: number;
+}
+
+function toSquareCatalogItem(name: string, price: number, square: { itemId: string; variationId: string }): SquareCatalogItem {
+  return {
+    id: square.itemId,
+    variation_id: square.variationId,
+    name,
+    price
+  };
+}
+
+// Square catalog item mappings, derived from the shared product catalog
 export const SQUARE_CATALOG_ITEMS = {
   // Main packages
-  'starter': {
-    id: 'CWZUFHRUS6WG223QCKMLGDMV',
-    variation_id: 'GNQP4YZH57MGVR265N4QA7QH',
-    name: 'Starter Package',
-    price: 69.00
-  },
-  'popular': {
-    id: 'SRFFZ5C7PZ2FP2MMQC4SF5SO', 
-    variation_id: 'MXDI5KGKHQE2G7MVWPGJWZIS',
-    name: 'Popular Package',
-    price: 179.00
-  },
-  'dustyRose': {
-    id: 'SR4WG6NXKQRBPZZR5SAIQ42V',
-    variation_id: 'GKIADSF5IJQEAAKCIL2WXZEK',
-    name: 'Dusty Rose Package', 
-    price: 349.00
-  },
-  'eternal': {
-    id: '6QQ3TRFXNERSKJO7RDJPJIRZ',
-    variation_id: 'X2N4DL3YZBKJYAICCVYMSJ6Y',
-    name: 'Eternal Package',
-    price: 599.00
-  },
-  
+  ...Object.fromEntries(PACKAGES.map(pkg => [pkg.key, toSquareCatalogItem(`${pkg.name} Package`, pkg.price, pkg.square)])),
   // Add-ons
-  'usbDrive': {
-    id: 'NCR5WYLYAJOCWVG4S3IMNZPF',
-    variation_id: 'SMW4WXZUAE6E5L3FTS76NC7Y',
-    name: 'Custom USB Drive',
-    price: 24.95
-  },
-  'expeditedProcessing': {
-    id: '56ZXSWLL3X3TMEQBYM6KJWXF',
-    variation_id: '37LXAW3CQ7ONF7AGNCYDWRRT',
-    name: 'Expedited Processing',
-    price: 29.99
-  },
-  'rushProcessing': {
-    id: '3P62CBU2OECIDL4PKTOWPFWM',
-    variation_id: 'HSMOF4CINCKHVWUPCEN5ZBOU',
-    name: 'Rush Processing',
-    price: 64.99
-  },
-  'onlineGallery': {
-    id: 'KG44MEJ2E5GKEG3Y3HA6DAZ2',
-    variation_id: 'YJ3AGBF7MRHW2QQ6KI5DMSPG',
-    name: 'Online Gallery & Backup',
-    price: 0.00 // Free first year
-  }
-};
+  ...Object.fromEntries(ADD_ONS.map(addOn => [addOn.key, toSquareCatalogItem(addOn.name, addOn.price, addOn.square)])),
+  // Gift card - ad hoc in Square, and its value is the price of the package chosen
+  [GIFT_CARD.key]: toSquareCatalogItem(GIFT_CARD.name, 0, { itemId: '', variationId: '' })
+} as Record<CatalogKey, SquareCatalogItem>;
 
 export interface OrderDetails {
   packageType: keyof typeof SQUARE_CATALOG_ITEMS;
@@ -70,43 +44,24 @@ export interface OrderDetails {
       country?: string;
     };
   };
+  lineItems: PricedLineItem[];
   discountCode?: string;
   discountAmount?: number;
   totalAmount: number;
 }
 
-export function buildSquareLineItems(orderDetails: OrderDetails) {
-  const lineItems = [];
-  
-  // Add main package
-  const mainPackage = SQUARE_CATALOG_ITEMS[orderDetails.packageType];
-  if (mainPackage) {
-    lineItems.push({
-      quantity: '1',
-      catalog_object_id: mainPackage.variation_id, // Use variation ID for catalog items
+export function buildSquareLineItems(lineItems: PricedLineItem[]) {
+  return lineItems.map(line => {
+    const item = SQUARE_CATALOG_ITEMS[line.catalogKey];
+    return {
+      quantity: line.quantity.toString(),
+      catalog_object_id: item.variation_id, // Use variation ID for catalog items
       base_price_money: {
-        amount: Math.round(mainPackage.price * 100), // Convert to cents
+        amount: Math.round(line.unitPrice * 100), // Convert to cents
         currency: 'USD'
       }
-    });
-  }
-  
-  // Add selected add-ons
-  orderDetails.addOns.forEach(addOnKey => {
-    const addOn = SQUARE_CATALOG_ITEMS[addOnKey];
-    if (addOn) {
-      lineItems.push({
-        quantity: '1',
-        catalog_object_id: addOn.variation_id, // Use variation ID for catalog items
-        base_price_money: {
-          amount: Math.round(addOn.price * 100),
-          currency: 'USD'
-        }
-      });
-    }
+    };
   });
-  
-  return lineItems;
 }
 
 export function buildSquareCustomerData(customerInfo: OrderDetails['customerInfo']) {
@@ -119,16 +74,10 @@ export function buildSquareCustomerData(customerInfo: OrderDetails['customerInfo
   };
 }
 
-// Map frontend package names to Square catalog keys
-export function mapPackageToSquareCatalog(packageName: string): keyof typeof SQUARE_CATALOG_ITEMS {
-  const packageMap: Record<string, keyof typeof SQUARE_CATALOG_ITEMS> = {
-    'starter': 'starter',
-    'popular': 'popular', 
-    'dusty-rose': 'dustyRose',
-    'eternal': 'eternal'
-  };
-  
-  return packageMap[packageName] || 'starter';
+// Map frontend package slugs (e.g. "dusty-rose") to Square catalog keys. Returns
+// undefined for unknown slugs so the payment handler can reject them.
+export function mapPackageToSquareCatalog(packageSlug: string): PackageKey | undefined {
+  return findPackageBySlug(packageSlug)?.key;
 }
 
 export function mapAddOnsToSquareCatalog(addOns: string[]): (keyof typeof SQUARE_CATALOG_ITEMS)[] {
@@ -0,0 +1,96 @@
+// Sales tax rates by shipping address. Rates come from the bundled table below
+// (state base rates plus ZIP prefix overrides for the cities with a higher
+// combined rate) until a tax provider is configured with configureTaxRateProvider.
+// The checkout page looks rates up synchronously for the order summary; the
+// payment handlers go through getTaxRate so a provider can replace the table.
+
+export interface TaxAddress {
+  state?: string; // Two-letter code
+  postalCode?: string;
+}
+
+export interface TaxRate {
+  rate: number; // Percentage, e.g. 7.25
+  jurisdiction: string; // Shown in the order summary, e.g. "CA" or "Los Angeles, CA"
+}
+
+export interface TaxRateProvider {
+  name: string;
+  // Resolves to null when the address is not taxed
+  getRate(address: TaxAddress): Promise<TaxRate | null>;
+}
+
+// State base rates. States without a sales tax (AK, DE, MT, NH, OR) are omitted.
+const STATE_RATES: Record<string, number> = {
+  AL: 4, AZ: 5.6, AR: 6.5, CA: 7.25, CO: 2.9, CT: 6.35, DC: 6, FL: 6, GA: 4,
+  HI: 4, ID: 6, IL: 6.25, IN: 7, IA: 6, KS: 6.5, KY: 6, LA: 4.45, ME: 5.5,
+  MD: 6, MA: 6.25, MI: 6, MN: 6.875, MS: 7, MO: 4.225, NE: 5.5, NV: 6.85,
+  NJ: 6.625, NM: 4.875, NY: 4, NC: 4.75, ND: 5, OH: 5.75, OK: 4.5, PA: 6,
+  RI: 7, SC: 6, SD: 4.2, TN: 7, TX: 6.25, UT: 6.1, VT: 6, VA: 5.3, WA: 6.5,
+  WV: 6, WI: 5, WY: 4
+};
+
+// Combined state and local rates for ZIP code prefixes. The longest matching prefix wins.
+const ZIP_PREFIX_RATES: { prefix: string; state: string; rate: number; jurisdiction: string }[] = [
+  { prefix: '100', state: 'NY', rate: 8.875, jurisdiction: 'New York City, NY' },
+  { prefix: '101', state: 'NY', rate: 8.875, jurisdiction: 'New York City, NY' },
+  { prefix: '102', state: 'NY', rate: 8.875, jurisdiction: 'New York City, NY' },
+  { prefix: '112', state: 'NY', rate: 8.875, jurisdiction: 'New York City, NY' },
+  { prefix: '900', state: 'CA', rate: 9.5, jurisdiction: 'Los Angeles, CA' },
+  { prefix: '941', state: 'CA', rate: 8.625, jurisdiction: 'San Francisco, CA' },
+  { prefix: '921', state: 'CA', rate: 7.75, jurisdiction: 'San Diego, CA' },
+  { prefix: '606', state: 'IL', rate: 10.25, jurisdiction: 'Chicago, IL' },
+  { prefix: '981', state: 'WA', rate: 10.35, jurisdiction: 'Seattle, WA' },
+  { prefix: '770', state: 'TX', rate: 8.25, jurisdiction: 'Houston, TX' },
+  { prefix: '752', state: 'TX', rate: 8.25, jurisdiction: 'Dallas, TX' },
+  { prefix: '787', state: 'TX', rate: 8.25, jurisdiction: 'Austin, TX' },
+  { prefix: '850', state: 'AZ', rate: 8.6, jurisdiction: 'Phoenix, AZ' },
+  { prefix: '802', state: 'CO', rate: 9.15, jurisdiction: 'Denver, CO' },
+  { prefix: '303', state: 'GA', rate: 8.9, jurisdiction: 'Atlanta, GA' },
+  { prefix: '370', state: 'TN', rate: 9.25, jurisdiction: 'Nashville, TN' },
+  { prefix: '891', state: 'NV', rate: 8.375, jurisdiction: 'Las Vegas, NV' }
+];
+
+export function normalizeTaxAddress(address: TaxAddress): TaxAddress {
+  return {
+    state: (address.state || '').trim().toUpperCase(),
+    postalCode: (address.postalCode || '').trim().slice(0, 5)
+  };
+}
+
+// Look the rate up in the bundled table. Returns null when the address is not
+// taxed or is not complete enough to tell.
+export function findBundledTaxRate(address: TaxAddress): TaxRate | null {
+  const { state, postalCode } = normalizeTaxAddress(address);
+  if (!state) return null;
+
+  const zipMatch = ZIP_PREFIX_RATES
+    .filter(entry => entry.state === state && postalCode.startsWith(entry.prefix))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+  if (zipMatch) {
+    return { rate: zipMatch.rate, jurisdiction: zipMatch.jurisdiction };
+  }
+
+  const stateRate = STATE_RATES[state];
+  return stateRate ? { rate: stateRate, jurisdiction: state } : null;
+}
+
+export const bundledTaxRateProvider: TaxRateProvider = {
+  name: 'bundled',
+  getRate: async (address) => findBundledTaxRate(address)
+};
+
+let taxRateProvider: TaxRateProvider = bundledTaxRateProvider;
+
+// Replace the bundled table, e.g. with a tax service client
+export function configureTaxRateProvider(provider: TaxRateProvider): void {
+  taxRateProvider = provider;
+}
+
+export async function getTaxRate(address: TaxAddress): Promise<TaxRate | null> {
+  return taxRateProvider.getRate(normalizeTaxAddress(address));
+}
+
+export function formatTaxLabel(tax: TaxRate): string {
+  return `Sales Tax (${tax.jurisdiction} ${tax.rate}%)`;
+}
@@ -1,13 +1,20 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Sends /api requests to VITE_API_PROXY, e.g. http://localhost:3000 for scripts/local-api.mjs
+function apiProxy(mode: string) {
+  const target = loadEnv(mode, process.cwd()).VITE_API_PROXY;
+  return target ? { "/api": target } : undefined;
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    proxy: apiProxy(mode),
   },
   plugins: [
     react(),